@@ -0,0 +1,44 @@
+// app/api/admin/keys/route.test.ts
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { NextRequest } from 'next/server';
+import { GeminiClient } from '@/lib/gemini';
+import { KeyPool } from '@/lib/keyPool';
+import { registerProvider } from '@/lib/provider';
+import { GET } from './route';
+
+function getKeys(token?: string) {
+  return GET(
+    new NextRequest('http://localhost/api/admin/keys', {
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    })
+  );
+}
+
+describe('GET /api/admin/keys', () => {
+  afterEach(() => {
+    delete process.env.ADMIN_TOKEN;
+    delete process.env.GEMINI_API_KEYS;
+  });
+
+  it('refuses every request while ADMIN_TOKEN is unset', async () => {
+    expect((await getKeys()).status).toBe(401);
+    expect((await getKeys('anything')).status).toBe(401);
+  });
+
+  it('reports the pool the Gemini client is using', async () => {
+    process.env.ADMIN_TOKEN = 'secret';
+    const pool = new KeyPool(['AIzaKeyNumberOne', 'AIzaKeyNumberTwo']);
+    pool.acquire();
+    registerProvider('gemini', () => new GeminiClient(pool));
+    // A configuration change after the client was created doesn't swap the pool out
+    process.env.GEMINI_API_KEYS = 'AIzaSomethingElse';
+
+    const response = await getKeys('secret');
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).keys).toEqual([
+      expect.objectContaining({ key: 'AIza…rOne', requestsToday: 1 }),
+      expect.objectContaining({ key: 'AIza…rTwo', requestsToday: 0 }),
+    ]);
+  });
+});
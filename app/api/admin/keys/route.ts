@@ -0,0 +1,44 @@
+// app/api/admin/keys/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getProvider } from '@/lib/provider';
+import { KeyPoolResponse } from '@/lib/types';
+
+// Requires `Authorization: Bearer <ADMIN_TOKEN>`; without a token configured nobody gets in
+function isAuthorized(request: NextRequest): boolean {
+  const token = process.env.ADMIN_TOKEN;
+  return Boolean(token) && request.headers.get('authorization') === `Bearer ${token}`;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAuthorized(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // The pool the live Gemini client draws from, not a fresh one built
+    // from the current configuration
+    let snapshot: KeyPoolResponse | undefined;
+    try {
+      snapshot = getProvider('gemini').keyPool?.();
+    } catch {
+      // No keys configured, so there is no client
+    }
+    if (!snapshot) {
+      return NextResponse.json(
+        { error: 'No Gemini API key pool is in use' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(snapshot);
+  } catch (error) {
+    console.error('Key pool API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+// app/api/batches/[batchId]/cancel/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { jobManager } from '@/lib/jobManager';
+import { cancelJobs } from '@/lib/jobProcessor';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ batchId: string }> }
+) {
+  try {
+    const { batchId } = await params;
+    const batch = jobManager.getBatch(batchId);
+
+    if (!batch) {
+      return NextResponse.json(
+        { error: 'Batch not found' },
+        { status: 404 }
+      );
+    }
+
+    const cancelled = cancelJobs(batch.jobIds);
+
+    return NextResponse.json({ batchId, cancelled });
+  } catch (error) {
+    console.error('Cancel API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+// app/api/batches/[batchId]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { jobManager } from '@/lib/jobManager';
+import { getAutoConcurrency } from '@/lib/jobProcessor';
+import { summarizeUsage, toStatusResponse } from '@/lib/jobStatus';
+import { BatchStatusResponse, Job } from '@/lib/types';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ batchId: string }> }
+) {
+  try {
+    const { batchId } = await params;
+    const batch = jobManager.getBatch(batchId);
+
+    if (!batch) {
+      return NextResponse.json(
+        { error: 'Batch not found' },
+        { status: 404 }
+      );
+    }
+
+    const jobs = batch.jobIds
+      .map((jobId) => jobManager.getJob(jobId))
+      .filter((job): job is Job => job !== undefined)
+      .map(toStatusResponse);
+
+    const response: BatchStatusResponse = {
+      batchId,
+      jobs,
+      concurrency: batch.concurrency,
+      effectiveConcurrency:
+        batch.concurrency === 'auto' ? getAutoConcurrency(batch.provider) ?? 1 : batch.concurrency,
+      ...summarizeUsage(jobs),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Batch status API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
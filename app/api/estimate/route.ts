@@ -0,0 +1,76 @@
+// app/api/estimate/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getDefaultProviderName, getProvider, hasProvider, listProviders } from '@/lib/provider';
+import { getDefaultModel, getModel, listModels } from '@/lib/models';
+import { getGroupSize } from '@/lib/jobProcessor';
+import { estimateBatch, getBatchBudget } from '@/lib/pricing';
+import { EstimateRequest, EstimateResponse, QuotaStatus } from '@/lib/types';
+
+// Pre-flight cost and quota check for the batch the form describes
+export async function POST(request: NextRequest) {
+  try {
+    const body: EstimateRequest = await request.json();
+
+    if (!Number.isInteger(body.imageCount) || body.imageCount < 1 || body.imageCount > 10) {
+      return NextResponse.json(
+        { error: 'Image count must be between 1 and 10' },
+        { status: 400 }
+      );
+    }
+
+    if (body.provider !== undefined && !hasProvider(body.provider)) {
+      return NextResponse.json(
+        { error: `Provider must be one of: ${listProviders().join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (body.model !== undefined && !getModel(body.model)) {
+      return NextResponse.json(
+        { error: `Model must be one of: ${listModels().map((m) => m.id).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const provider = body.provider ?? (body.model ? getModel(body.model)!.provider : getDefaultProviderName());
+    const model = body.model ? getModel(body.model)! : getDefaultModel(provider);
+    if (!model || model.provider !== provider) {
+      return NextResponse.json(
+        { error: `Model ${body.model ?? '(default)'} is not available from provider ${provider}` },
+        { status: 400 }
+      );
+    }
+
+    const inputImageCount = body.inputImageCount ?? 0;
+    const requests = Math.ceil(body.imageCount / getGroupSize(provider, model.id, inputImageCount));
+    const { usage, cost } = estimateBatch(model.id, body.prompt ?? '', inputImageCount, body.imageCount);
+    const budget = getBatchBudget();
+
+    let quota: QuotaStatus | undefined;
+    try {
+      quota = getProvider(provider).quota?.();
+    } catch {
+      // A provider that can't be created has no quota to report
+    }
+
+    const response: EstimateResponse = {
+      model: model.id,
+      imageCount: body.imageCount,
+      requests,
+      usage,
+      cost,
+      budget,
+      overBudget: budget !== undefined && cost !== undefined && cost > budget,
+      quota,
+      overQuota: quota?.remainingToday !== undefined && requests > quota.remainingToday,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Estimate API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
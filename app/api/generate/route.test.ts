@@ -0,0 +1,56 @@
+// app/api/generate/route.test.ts
+import { describe, it, expect, jest } from '@jest/globals';
+import { NextRequest } from 'next/server';
+
+// The cleanup timer would keep jest from exiting
+jest.mock('@/lib/cleanup', () => ({ startCleanupTask: () => {} }));
+
+import { POST } from './route';
+
+// 1x1 red pixel PNG
+const PNG_BASE64 =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8DwHwAFBQIAX8jx0gAAAABJRU5ErkJggg==';
+
+function post(body: Record<string, unknown>) {
+  return POST(
+    new NextRequest('http://localhost/api/generate', {
+      method: 'POST',
+      body: JSON.stringify({ prompt: 'a red fox', imageCount: 1, concurrency: 1, temperature: 1, ...body }),
+    })
+  );
+}
+
+function generate(images: string[]) {
+  return post({ images });
+}
+
+describe('POST /api/generate', () => {
+  it('rejects corrupt images with a 400', async () => {
+    const response = await generate([Buffer.from('hello world').toString('base64')]);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: 'Image data is corrupt or not a PNG, JPEG or WebP image',
+    });
+  });
+
+  it('rejects images whose label does not match their contents with a 400', async () => {
+    const response = await generate([`data:image/jpeg;base64,${PNG_BASE64}`]);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: 'Image is labelled image/jpeg but its contents are image/png',
+    });
+  });
+
+  it.each([
+    ['missing', undefined],
+    ['a string', '3'],
+    ['not a whole number', 2.5],
+  ])('rejects a concurrency that is %s with a 400', async (_, concurrency) => {
+    const response = await post({ concurrency });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Concurrency must be between 1 and 5, or auto' });
+  });
+});
@@ -1,16 +1,20 @@
 // app/api/generate/route.ts
 import { NextRequest, NextResponse } from 'next/server';
 import { jobManager } from '@/lib/jobManager';
-import { getGeminiClient } from '@/lib/gemini';
-import { GenerateRequest, GenerateResponse } from '@/lib/types';
+import { getDefaultProviderName, hasProvider, listProviders } from '@/lib/provider';
+import { getDefaultModel, getModel, listModels } from '@/lib/models';
+import { processJobs } from '@/lib/jobProcessor';
+import { GenerateRequest, GenerateResponse, GenerationMode } from '@/lib/types';
 import { startCleanupTask } from '@/lib/cleanup';
+import { parseImageData, toDataUrl } from '@/lib/imageData';
+import { InvalidArgumentError } from '@/lib/errors';
 
-// Start cleanup task once
-let cleanupStarted = false;
-if (!cleanupStarted) {
-  startCleanupTask();
-  cleanupStarted = true;
-}
+const MAX_SEED = 2147483647;
+const MIN_TIMEOUT_MS = 1000;
+const MAX_TIMEOUT_MS = 10 * 60 * 1000;
+const GENERATION_MODES: GenerationMode[] = ['edit', 'reference', 'compose'];
+
+startCleanupTask();
 
 export async function POST(request: NextRequest) {
   try {
@@ -24,6 +28,39 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (body.provider !== undefined && !hasProvider(body.provider)) {
+      return NextResponse.json(
+        { error: `Provider must be one of: ${listProviders().join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (body.model !== undefined && !getModel(body.model)) {
+      return NextResponse.json(
+        { error: `Model must be one of: ${listModels().map((m) => m.id).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // The model picks the provider unless the request names one explicitly
+    const provider = body.provider ?? (body.model ? getModel(body.model)!.provider : getDefaultProviderName());
+    const model = body.model ? getModel(body.model)! : getDefaultModel(provider);
+    if (!model || model.provider !== provider) {
+      return NextResponse.json(
+        { error: `Model ${body.model ?? '(default)'} is not available from provider ${provider}` },
+        { status: 400 }
+      );
+    }
+    body.provider = provider;
+    body.model = model.id;
+
+    if (body.prompt.length > model.maxPromptLength) {
+      return NextResponse.json(
+        { error: `Prompt must be at most ${model.maxPromptLength} characters for ${model.label}` },
+        { status: 400 }
+      );
+    }
+
     if (body.imageCount < 1 || body.imageCount > 10) {
       return NextResponse.json(
         { error: 'Image count must be between 1 and 10' },
@@ -31,9 +68,112 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (body.concurrency < 1 || body.concurrency > 5) {
+    if (
+      body.concurrency !== 'auto' &&
+      !(Number.isInteger(body.concurrency) && body.concurrency >= 1 && body.concurrency <= 5)
+    ) {
+      return NextResponse.json(
+        { error: 'Concurrency must be between 1 and 5, or auto' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof body.temperature !== 'number' || body.temperature < 0 || body.temperature > 2) {
+      return NextResponse.json(
+        { error: 'Temperature must be between 0 and 2' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      body.seed !== undefined &&
+      (!Number.isInteger(body.seed) || body.seed < 0 || body.seed > MAX_SEED)
+    ) {
+      return NextResponse.json(
+        { error: `Seed must be an integer between 0 and ${MAX_SEED}` },
+        { status: 400 }
+      );
+    }
+
+    if (body.topP !== undefined && (typeof body.topP !== 'number' || body.topP < 0 || body.topP > 1)) {
+      return NextResponse.json(
+        { error: 'Top P must be between 0 and 1' },
+        { status: 400 }
+      );
+    }
+
+    if (body.topK !== undefined && (!Number.isInteger(body.topK) || body.topK < 1 || body.topK > 100)) {
+      return NextResponse.json(
+        { error: 'Top K must be an integer between 1 and 100' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      body.timeoutMs !== undefined &&
+      (!Number.isInteger(body.timeoutMs) || body.timeoutMs < MIN_TIMEOUT_MS || body.timeoutMs > MAX_TIMEOUT_MS)
+    ) {
       return NextResponse.json(
-        { error: 'Concurrency must be between 1 and 5' },
+        { error: `Timeout must be between ${MIN_TIMEOUT_MS} and ${MAX_TIMEOUT_MS} ms` },
+        { status: 400 }
+      );
+    }
+
+    if (body.aspectRatio !== undefined && !model.aspectRatios.includes(body.aspectRatio)) {
+      return NextResponse.json(
+        { error: `Aspect ratio must be one of: ${model.aspectRatios.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const images = body.images ?? (body.image !== undefined ? [body.image] : []);
+    if (!Array.isArray(images) || images.length > model.maxInputImages) {
+      return NextResponse.json(
+        { error: `Provide at most ${model.maxInputImages} images for ${model.label}` },
+        { status: 400 }
+      );
+    }
+
+    try {
+      // Store the canonical form so providers get the detected MIME type
+      body.images = images.map((image, i) => {
+        if (typeof image !== 'string') {
+          throw new InvalidArgumentError(`Image ${i + 1} must be a base64 string or data URL`);
+        }
+        try {
+          return toDataUrl(parseImageData(image));
+        } catch (error) {
+          if (error instanceof InvalidArgumentError && images.length > 1) {
+            throw new InvalidArgumentError(`Image ${i + 1}: ${error.message}`);
+          }
+          throw error;
+        }
+      });
+      delete body.image;
+    } catch (error) {
+      if (error instanceof InvalidArgumentError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    if (body.mode !== undefined && !GENERATION_MODES.includes(body.mode)) {
+      return NextResponse.json(
+        { error: `Mode must be one of: ${GENERATION_MODES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (body.mode === 'compose' && body.images.length < 2) {
+      return NextResponse.json(
+        { error: 'Compose mode needs at least 2 images' },
+        { status: 400 }
+      );
+    }
+
+    if (body.includeText !== undefined && typeof body.includeText !== 'boolean') {
+      return NextResponse.json(
+        { error: 'includeText must be a boolean' },
         { status: 400 }
       );
     }
@@ -41,15 +181,26 @@ export async function POST(request: NextRequest) {
     // Create jobs
     const jobIds: string[] = [];
     for (let i = 0; i < body.imageCount; i++) {
-      const jobId = jobManager.createJob();
+      // Offset the seed per image so a batch isn't N copies of one image
+      const seed = body.seed !== undefined ? (body.seed + i) % (MAX_SEED + 1) : undefined;
+      const jobId = jobManager.createJob({
+        temperature: body.temperature,
+        seed,
+        topP: body.topP,
+        topK: body.topK,
+        aspectRatio: body.aspectRatio,
+        model: model.id,
+      });
       jobIds.push(jobId);
     }
 
     // Create batch
-    const batchId = jobManager.createBatch(jobIds, body.concurrency);
+    const batchId = jobManager.createBatch(jobIds, body);
 
     // Start processing asynchronously (don't await)
-    processJobs(jobIds, body, body.concurrency);
+    processJobs(jobIds, body, body.concurrency).catch((error) => {
+      console.error(`Batch ${batchId} processing error:`, error);
+    });
 
     const response: GenerateResponse = {
       batchId,
@@ -66,51 +217,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
-async function processJobs(
-  jobIds: string[],
-  request: GenerateRequest,
-  concurrency: number
-) {
-  const queue = [...jobIds];
-  const active = new Set<Promise<void>>();
-
-  while (queue.length > 0 || active.size > 0) {
-    // Start new jobs up to concurrency limit
-    while (active.size < concurrency && queue.length > 0) {
-      const jobId = queue.shift()!;
-      const promise = processJob(jobId, request).finally(() => {
-        active.delete(promise);
-      });
-      active.add(promise);
-    }
-
-    // Wait for at least one to complete
-    if (active.size > 0) {
-      await Promise.race(active);
-    }
-  }
-}
-
-async function processJob(jobId: string, request: GenerateRequest) {
-  try {
-    jobManager.updateJob(jobId, { status: 'generating' });
-
-    const geminiClient = getGeminiClient();
-    const imageUrl = await geminiClient.generateImage(request.prompt, {
-      temperature: request.temperature,
-      image: request.image,
-      mode: request.mode,
-    });
-
-    jobManager.updateJob(jobId, {
-      status: 'complete',
-      imageUrl,
-    });
-  } catch (error) {
-    jobManager.updateJob(jobId, {
-      status: 'error',
-      error: error instanceof Error ? error.message : 'Unknown error',
-    });
-  }
-}
@@ -0,0 +1,22 @@
+// app/api/health/route.ts
+import { NextResponse } from 'next/server';
+import { listCircuitBreakers } from '@/lib/circuitBreaker';
+import { HealthResponse } from '@/lib/types';
+
+export async function GET() {
+  try {
+    const circuits = listCircuitBreakers().map((breaker) => breaker.snapshot());
+    const response: HealthResponse = {
+      status: circuits.every((circuit) => circuit.state === 'closed') ? 'ok' : 'degraded',
+      circuits,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Health API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
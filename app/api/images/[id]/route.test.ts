@@ -0,0 +1,42 @@
+// app/api/images/[id]/route.test.ts
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { NextRequest } from 'next/server';
+import { MemoryBlobStore, setBlobStore } from '@/lib/blobStore';
+import { GET } from './route';
+
+function getImage(id: string, etag?: string) {
+  return GET(
+    new NextRequest(`http://localhost/api/images/${id}`, {
+      headers: etag ? { 'If-None-Match': etag } : {},
+    }),
+    { params: Promise.resolve({ id }) }
+  );
+}
+
+describe('GET /api/images/:id', () => {
+  let store: MemoryBlobStore;
+
+  beforeEach(async () => {
+    store = new MemoryBlobStore();
+    setBlobStore(store);
+    await store.put('job-1.png', Buffer.from('fox'), 'image/png');
+  });
+
+  it('serves the image with its content type', async () => {
+    const response = await getImage('job-1.png');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('image/png');
+    expect(await response.text()).toBe('fox');
+  });
+
+  it('answers a matching If-None-Match with 304', async () => {
+    expect((await getImage('job-1.png', '"job-1.png"')).status).toBe(304);
+  });
+
+  it('reports a deleted image as gone even to a cached client', async () => {
+    await store.delete('job-1.png');
+
+    expect((await getImage('job-1.png', '"job-1.png"')).status).toBe(404);
+  });
+});
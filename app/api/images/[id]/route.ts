@@ -0,0 +1,55 @@
+// app/api/images/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getBlobStore, isBlobId } from '@/lib/blobStore';
+
+// An id names one image that never changes, so browsers can keep it for good
+const CACHE_CONTROL = 'public, max-age=31536000, immutable';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const etag = `"${id}"`;
+
+    if (!isBlobId(id)) {
+      return NextResponse.json(
+        { error: 'Image not found' },
+        { status: 404 }
+      );
+    }
+
+    const blob = await getBlobStore().get(id);
+    if (!blob) {
+      return NextResponse.json(
+        { error: 'Image not found' },
+        { status: 404 }
+      );
+    }
+
+    // Only once the image is known to still exist, so a deleted one isn't
+    // kept alive in caches
+    if (request.headers.get('if-none-match') === etag) {
+      await blob.body.cancel();
+      return new NextResponse(null, { status: 304, headers: { ETag: etag, 'Cache-Control': CACHE_CONTROL } });
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': blob.contentType,
+      'Cache-Control': CACHE_CONTROL,
+      ETag: etag,
+    };
+    if (blob.size !== undefined) {
+      headers['Content-Length'] = String(blob.size);
+    }
+
+    return new NextResponse(blob.body, { headers });
+  } catch (error) {
+    console.error('Images API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
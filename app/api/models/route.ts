@@ -0,0 +1,26 @@
+// app/api/models/route.ts
+import { NextResponse } from 'next/server';
+import { getDefaultModel, listModels } from '@/lib/models';
+import { getDefaultProviderName, hasProvider } from '@/lib/provider';
+import { ModelsResponse } from '@/lib/types';
+
+export async function GET() {
+  try {
+    // Only offer models whose provider is configured on this server
+    const models = listModels().filter((model) => hasProvider(model.provider));
+    const defaultModel = getDefaultModel(getDefaultProviderName()) ?? models[0];
+
+    const response: ModelsResponse = {
+      models,
+      defaultModel: defaultModel?.id ?? '',
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Models API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+// app/api/sessions/[sessionId]/turns/route.test.ts
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { NextRequest } from 'next/server';
+import { jobManager } from '@/lib/jobManager';
+import { sessionManager } from '@/lib/sessionManager';
+import { POST } from './route';
+
+// 1x1 red pixel PNG
+const PNG_BASE64 =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8DwHwAFBQIAX8jx0gAAAABJRU5ErkJggg==';
+
+function sendTurn(body: object) {
+  const sessionId = sessionManager.createSession();
+  return POST(
+    new NextRequest(`http://localhost/api/sessions/${sessionId}/turns`, {
+      method: 'POST',
+      body: JSON.stringify(body),
+    }),
+    { params: Promise.resolve({ sessionId }) }
+  );
+}
+
+describe('POST /api/sessions/:sessionId/turns', () => {
+  it("checks the prompt against the model's length limit", async () => {
+    const response = await sendTurn({ prompt: 'x'.repeat(10001) });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: 'Prompt must be at most 10000 characters for Gemini 2.5 Flash Image',
+    });
+  });
+
+  it("checks input images against the model's limit", async () => {
+    const response = await sendTurn({ prompt: 'a red fox', images: Array(4).fill(PNG_BASE64) });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Provide at most 3 images for Gemini 2.5 Flash Image' });
+  });
+
+  it('rejects unknown models', async () => {
+    const response = await sendTurn({ prompt: 'a red fox', model: 'no-such-model' });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toMatch(/^Model must be one of: /);
+  });
+
+  describe('with Gemini keys configured', () => {
+    afterEach(() => {
+      delete process.env.GEMINI_API_KEY;
+    });
+
+    it("rejects models whose provider can't hold a conversation", async () => {
+      process.env.GEMINI_API_KEY = 'AIzaTestKey';
+
+      const response = await sendTurn({ prompt: 'a red fox', model: 'imagen-4.0-generate-001' });
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({ error: 'Provider imagen does not support conversations' });
+      expect(jobManager.listJobs()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,227 @@
+// app/api/sessions/[sessionId]/turns/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { jobManager } from '@/lib/jobManager';
+import { sessionManager } from '@/lib/sessionManager';
+import { getDefaultProviderName, getProvider, hasProvider, listProviders } from '@/lib/provider';
+import { getDefaultModel, getModel, listModels } from '@/lib/models';
+import { processTurn } from '@/lib/jobProcessor';
+import { parseImageData, toDataUrl } from '@/lib/imageData';
+import { InvalidArgumentError } from '@/lib/errors';
+import { toStatusResponse } from '@/lib/jobStatus';
+import { CreateTurnRequest, SessionResponse, SessionTurn, SessionTurnResponse } from '@/lib/types';
+
+function supportsConversation(providerName: string): boolean {
+  try {
+    return getProvider(providerName).converse !== undefined;
+  } catch {
+    // Let the job report why the provider couldn't be created
+    return true;
+  }
+}
+
+function toTurnResponse(turn: SessionTurn): SessionTurnResponse {
+  const job = jobManager.getJob(turn.jobId);
+  return {
+    turnId: turn.id,
+    parentId: turn.parentId,
+    prompt: turn.prompt,
+    images: turn.images,
+    job: job
+      ? toStatusResponse(job)
+      : {
+          // The job expired before the session did; the turn still has its output
+          jobId: turn.jobId,
+          status: turn.imageUrl ? 'complete' : 'error',
+          imageUrl: turn.imageUrl,
+          text: turn.text,
+        },
+    createdAt: turn.createdAt,
+  };
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params;
+    const session = sessionManager.getSession(sessionId);
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    const response: SessionResponse = {
+      sessionId: session.id,
+      turns: session.turns.map(toTurnResponse),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Session turns API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params;
+    const session = sessionManager.getSession(sessionId);
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    const body: CreateTurnRequest = await request.json();
+
+    if (!body.prompt || body.prompt.length < 3) {
+      return NextResponse.json(
+        { error: 'Prompt must be at least 3 characters' },
+        { status: 400 }
+      );
+    }
+
+    const temperature = body.temperature ?? 1.0;
+    if (typeof temperature !== 'number' || temperature < 0 || temperature > 2) {
+      return NextResponse.json(
+        { error: 'Temperature must be between 0 and 2' },
+        { status: 400 }
+      );
+    }
+
+    if (body.includeText !== undefined && typeof body.includeText !== 'boolean') {
+      return NextResponse.json(
+        { error: 'includeText must be a boolean' },
+        { status: 400 }
+      );
+    }
+
+    if (body.provider !== undefined && !hasProvider(body.provider)) {
+      return NextResponse.json(
+        { error: `Provider must be one of: ${listProviders().join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (body.model !== undefined && !getModel(body.model)) {
+      return NextResponse.json(
+        { error: `Model must be one of: ${listModels().map((m) => m.id).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // The model picks the provider unless the request names one explicitly
+    const provider = body.provider ?? (body.model ? getModel(body.model)!.provider : getDefaultProviderName());
+    const model = body.model ? getModel(body.model)! : getDefaultModel(provider);
+    if (!model || model.provider !== provider) {
+      return NextResponse.json(
+        { error: `Model ${body.model ?? '(default)'} is not available from provider ${provider}` },
+        { status: 400 }
+      );
+    }
+
+    if (!supportsConversation(provider)) {
+      return NextResponse.json(
+        { error: `Provider ${provider} does not support conversations` },
+        { status: 400 }
+      );
+    }
+
+    if (body.prompt.length > model.maxPromptLength) {
+      return NextResponse.json(
+        { error: `Prompt must be at most ${model.maxPromptLength} characters for ${model.label}` },
+        { status: 400 }
+      );
+    }
+
+    if (body.aspectRatio !== undefined && !model.aspectRatios.includes(body.aspectRatio)) {
+      return NextResponse.json(
+        { error: `Aspect ratio must be one of: ${model.aspectRatios.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const images = body.images ?? [];
+    if (!Array.isArray(images) || images.length > model.maxInputImages) {
+      return NextResponse.json(
+        { error: `Provide at most ${model.maxInputImages} images for ${model.label}` },
+        { status: 400 }
+      );
+    }
+
+    let canonicalImages: string[];
+    try {
+      canonicalImages = images.map((image, i) => {
+        if (typeof image !== 'string') {
+          throw new InvalidArgumentError(`Image ${i + 1} must be a base64 string or data URL`);
+        }
+        return toDataUrl(parseImageData(image));
+      });
+    } catch (error) {
+      if (error instanceof InvalidArgumentError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    // Continue from the latest turn unless the client picked a branch point
+    const parentId =
+      body.parentTurnId !== undefined
+        ? body.parentTurnId
+        : session.turns[session.turns.length - 1]?.id ?? null;
+
+    if (parentId !== null) {
+      const parent = sessionManager.getTurn(sessionId, parentId);
+      if (!parent) {
+        return NextResponse.json(
+          { error: 'Parent turn not found' },
+          { status: 400 }
+        );
+      }
+      if (!parent.imageUrl) {
+        return NextResponse.json(
+          { error: 'Parent turn has not finished generating' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const jobId = jobManager.createJob({
+      temperature,
+      aspectRatio: body.aspectRatio,
+      model: model.id,
+    });
+
+    const turnId = sessionManager.addTurn(sessionId, {
+      parentId,
+      prompt: body.prompt,
+      images: canonicalImages,
+      jobId,
+    })!;
+
+    // Start processing asynchronously (don't await)
+    processTurn(sessionId, turnId, { ...body, temperature, provider, model: model.id }).catch((error) => {
+      console.error(`Turn ${turnId} processing error:`, error);
+    });
+
+    return NextResponse.json(toTurnResponse(sessionManager.getTurn(sessionId, turnId)!));
+  } catch (error) {
+    console.error('Session turns API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
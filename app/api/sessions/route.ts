@@ -0,0 +1,19 @@
+// app/api/sessions/route.ts
+import { NextResponse } from 'next/server';
+import { sessionManager } from '@/lib/sessionManager';
+import { startCleanupTask } from '@/lib/cleanup';
+
+startCleanupTask();
+
+export async function POST() {
+  try {
+    const sessionId = sessionManager.createSession();
+    return NextResponse.json({ sessionId });
+  } catch (error) {
+    console.error('Sessions API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 // app/api/status/[jobId]/route.ts
 import { NextRequest, NextResponse } from 'next/server';
 import { jobManager } from '@/lib/jobManager';
+import { toStatusResponse } from '@/lib/jobStatus';
 import { StatusResponse } from '@/lib/types';
 
 export async function GET(
@@ -18,13 +19,7 @@ export async function GET(
       );
     }
 
-    const response: StatusResponse = {
-      jobId: job.id,
-      status: job.status,
-      imageUrl: job.imageUrl,
-      error: job.error,
-    };
-
+    const response: StatusResponse = toStatusResponse(job);
     return NextResponse.json(response);
   } catch (error) {
     console.error('Status API error:', error);
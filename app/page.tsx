@@ -1,29 +1,122 @@
 // app/page.tsx
 'use client';
 
-import { useState, useRef } from 'react';
-import { GenerationMode, StatusResponse } from '@/lib/types';
+import { useEffect, useState, useRef } from 'react';
+import {
+  BatchStatusResponse,
+  EstimateRequest,
+  EstimateResponse,
+  GenerateRequest,
+  GenerateResponse,
+  GenerationMode,
+  ModelInfo,
+  ModelsResponse,
+  StatusResponse,
+} from '@/lib/types';
+import { DEFAULT_ASPECT_RATIO } from '@/lib/aspectRatios';
+import { isJobFinished } from '@/lib/jobStatus';
 import PromptInput from '@/components/PromptInput';
 import ImageUpload from '@/components/ImageUpload';
 import ModeSelector from '@/components/ModeSelector';
 import SettingsPanel from '@/components/SettingsPanel';
 import ImageGallery from '@/components/ImageGallery';
+import SessionPanel from '@/components/SessionPanel';
+import CostEstimate from '@/components/CostEstimate';
+import HealthBanner from '@/components/HealthBanner';
+
+type Tab = 'batch' | 'conversation';
 
 export default function Home() {
+  const [tab, setTab] = useState<Tab>('batch');
+
   // Form state
   const [prompt, setPrompt] = useState('');
-  const [image, setImage] = useState<string | null>(null);
+  const [images, setImages] = useState<string[]>([]);
   const [mode, setMode] = useState<GenerationMode>('edit');
   const [imageCount, setImageCount] = useState(5);
   const [concurrency, setConcurrency] = useState(3);
+  const [autoConcurrency, setAutoConcurrency] = useState(false);
   const [temperature, setTemperature] = useState(1.0);
+  const [aspectRatio, setAspectRatio] = useState(DEFAULT_ASPECT_RATIO);
+  const [includeText, setIncludeText] = useState(false);
+  const [seed, setSeed] = useState<number | null>(null);
+  const [topP, setTopP] = useState<number | null>(null);
+  const [topK, setTopK] = useState<number | null>(null);
+  const [models, setModels] = useState<ModelInfo[]>([]);
+  const [model, setModel] = useState('');
+  const [estimate, setEstimate] = useState<EstimateResponse | null>(null);
 
   // Generation state
   const [isGenerating, setIsGenerating] = useState(false);
   const [jobs, setJobs] = useState<StatusResponse[]>([]);
+  const [effectiveConcurrency, setEffectiveConcurrency] = useState<number | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [cancelRequested, setCancelRequested] = useState(false);
   const abortControllerRef = useRef<AbortController | null>(null);
+  const lastRequestRef = useRef<GenerateRequest | null>(null);
+  const batchIdsRef = useRef<string[]>([]);
+
+  const selectedModel = models.find((m) => m.id === model);
+
+  useEffect(() => {
+    fetch('/api/models')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: ModelsResponse | null) => {
+        if (!data) return;
+        setModels(data.models);
+        setModel(data.defaultModel);
+      })
+      .catch(() => {
+        // Without the registry the server default model is used
+      });
+  }, []);
+
+  // Refresh the cost and quota preview as the form changes, and after a run
+  // since it used up some of the quota
+  useEffect(() => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      const body: EstimateRequest = {
+        prompt,
+        imageCount,
+        inputImageCount: images.length,
+        model: model || undefined,
+      };
+      fetch('/api/estimate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      })
+        .then((res) => (res.ok ? res.json() : null))
+        .then((data: EstimateResponse | null) => setEstimate(data))
+        .catch(() => {
+          // The preview is informational; generating still works without it
+        });
+    }, 300);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [prompt, imageCount, images.length, model, isGenerating]);
+
+  // Keep the other settings within what the new model supports
+  const handleModelChange = (value: string) => {
+    const next = models.find((m) => m.id === value);
+    setModel(value);
+    if (!next) return;
+
+    if (!next.aspectRatios.includes(aspectRatio)) {
+      setAspectRatio(next.aspectRatios.includes(DEFAULT_ASPECT_RATIO) ? DEFAULT_ASPECT_RATIO : next.aspectRatios[0]);
+    }
+    if (images.length > next.maxInputImages) {
+      setImages(images.slice(0, next.maxInputImages));
+    }
+    if (prompt.length > next.maxPromptLength) {
+      setPrompt(prompt.slice(0, next.maxPromptLength));
+    }
+  };
 
   const handleCancel = () => {
     setCancelRequested(true);
@@ -34,6 +127,21 @@ export default function Home() {
       abortControllerRef.current.abort();
       abortControllerRef.current = null;
     }
+
+    // Stop the server-side work too, then show which jobs ended up cancelled
+    const batchIds = batchIdsRef.current;
+    batchIdsRef.current = [];
+    Promise.all(batchIds.map((batchId) => fetch(`/api/batches/${batchId}/cancel`, { method: 'POST' })))
+      .then(() => Promise.all(jobs.map((job) => fetch(`/api/status/${job.jobId}`).then((res) => {
+        if (!res.ok) {
+          throw new Error(`Failed to fetch status for job ${job.jobId}`);
+        }
+        return res.json();
+      }))))
+      .then((statuses: StatusResponse[]) => setJobs(statuses))
+      .catch(() => {
+        // The jobs keep their last polled state
+      });
   };
 
   const handleGenerate = async () => {
@@ -45,44 +153,94 @@ export default function Home() {
     setError(null);
     setIsGenerating(true);
     setJobs([]);
+    setEffectiveConcurrency(null);
     setCancelRequested(false);
+    batchIdsRef.current = [];
 
-    try {
-      const response = await fetch('/api/generate', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          prompt,
-          imageCount,
-          concurrency,
-          temperature,
-          image: image || undefined,
-          mode: image ? mode : undefined,
-        }),
-      });
+    // Compose needs several images; fall back to editing the single one left
+    const effectiveMode = mode === 'compose' && images.length < 2 ? 'edit' : mode;
 
-      if (!response.ok) {
-        const data = await response.json();
-        throw new Error(data.error || 'Generation failed');
-      }
+    const body: GenerateRequest = {
+      prompt,
+      imageCount,
+      concurrency: autoConcurrency ? 'auto' : concurrency,
+      temperature,
+      aspectRatio,
+      seed: seed ?? undefined,
+      topP: topP ?? undefined,
+      topK: topK ?? undefined,
+      images: images.length > 0 ? images : undefined,
+      mode: images.length > 0 ? effectiveMode : undefined,
+      includeText: includeText || undefined,
+      model: model || undefined,
+    };
+    lastRequestRef.current = body;
 
-      const data = await response.json();
+    try {
+      const jobIds = await submitGeneration(body);
 
       // Initialize job states
-      const initialJobs: StatusResponse[] = data.jobIds.map((jobId: string) => ({
+      const initialJobs: StatusResponse[] = jobIds.map((jobId: string) => ({
         jobId,
         status: 'pending',
+        params: { temperature, aspectRatio },
       }));
       setJobs(initialJobs);
 
       // Start polling
-      pollJobs(data.jobIds);
+      pollJobs(jobIds);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      setIsGenerating(false);
+    }
+  };
+
+  // Re-run a single failed image with the settings of the last batch
+  const handleRetry = async (index: number) => {
+    if (!lastRequestRef.current) return;
+
+    setError(null);
+    setIsGenerating(true);
+    setCancelRequested(false);
+
+    try {
+      const [retryJobId] = await submitGeneration({
+        ...lastRequestRef.current,
+        imageCount: 1,
+      });
+
+      const updatedJobs: StatusResponse[] = jobs.map((job, i) =>
+        i === index ? { jobId: retryJobId, status: 'pending' } : job
+      );
+      setJobs(updatedJobs);
+      pollJobs(updatedJobs.map(job => job.jobId));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Unknown error');
       setIsGenerating(false);
     }
   };
 
+  const handleEditPrompt = () => {
+    document.getElementById('prompt')?.focus();
+  };
+
+  const submitGeneration = async (body: GenerateRequest): Promise<string[]> => {
+    const response = await fetch('/api/generate', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const data = await response.json();
+      throw new Error(data.error || 'Generation failed');
+    }
+
+    const data: GenerateResponse = await response.json();
+    batchIdsRef.current.push(data.batchId);
+    return data.jobIds;
+  };
+
   const pollJobs = async (jobIds: string[]) => {
     const pollInterval = 2000; // 2 seconds
     let allComplete = false;
@@ -112,10 +270,18 @@ export default function Home() {
         const statuses: StatusResponse[] = await Promise.all(statusPromises);
         setJobs(statuses);
 
+        // Auto concurrency moves with rate limiting, so show where it is now
+        const batchId = batchIdsRef.current[batchIdsRef.current.length - 1];
+        if (lastRequestRef.current?.concurrency === 'auto' && batchId) {
+          const res = await fetch(`/api/batches/${batchId}`, { signal });
+          if (res.ok) {
+            const batch: BatchStatusResponse = await res.json();
+            setEffectiveConcurrency(batch.effectiveConcurrency);
+          }
+        }
+
         // Check if all jobs are done
-        allComplete = statuses.every(
-          job => job.status === 'complete' || job.status === 'error'
-        );
+        allComplete = statuses.every(job => isJobFinished(job.status));
       } catch (err) {
         // Handle network errors during polling
         if (err instanceof Error && err.name === 'AbortError') {
@@ -155,35 +321,83 @@ export default function Home() {
           </p>
         </div>
 
+        <HealthBanner />
+
+        {/* Tabs */}
+        <div className="flex justify-center gap-2" role="tablist">
+          {(['batch', 'conversation'] as const).map((value) => (
+            <button
+              key={value}
+              role="tab"
+              aria-selected={tab === value}
+              onClick={() => setTab(value)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                tab === value ? 'bg-blue-500 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              {value === 'batch' ? 'Batch' : 'Conversation'}
+            </button>
+          ))}
+        </div>
+
+        {tab === 'conversation' ? (
+          <SessionPanel
+            temperature={temperature}
+            aspectRatio={aspectRatio}
+            includeText={includeText}
+          />
+        ) : (
+        <>
         {/* Input Section */}
         <div className="bg-white rounded-lg shadow-md p-6 space-y-6">
           <PromptInput
             value={prompt}
             onChange={setPrompt}
+            maxLength={selectedModel?.maxPromptLength}
             disabled={isGenerating}
           />
 
-          <ImageUpload
-            value={image}
-            onChange={setImage}
-            disabled={isGenerating}
-          />
+          {/* Text-only models such as Imagen take no input images */}
+          {selectedModel?.maxInputImages !== 0 && (
+            <ImageUpload
+              value={images}
+              onChange={setImages}
+              maxImages={selectedModel?.maxInputImages}
+              disabled={isGenerating}
+            />
+          )}
 
-          {image && (
+          {images.length > 0 && (
             <ModeSelector
-              value={mode}
+              value={mode === 'compose' && images.length < 2 ? 'edit' : mode}
               onChange={setMode}
+              imageCount={images.length}
               disabled={isGenerating}
             />
           )}
 
           <SettingsPanel
+            models={models}
+            model={model}
+            onModelChange={handleModelChange}
             imageCount={imageCount}
             onImageCountChange={setImageCount}
             concurrency={concurrency}
             onConcurrencyChange={setConcurrency}
+            autoConcurrency={autoConcurrency}
+            onAutoConcurrencyChange={setAutoConcurrency}
             temperature={temperature}
             onTemperatureChange={setTemperature}
+            aspectRatio={aspectRatio}
+            onAspectRatioChange={setAspectRatio}
+            includeText={includeText}
+            onIncludeTextChange={setIncludeText}
+            seed={seed}
+            onSeedChange={setSeed}
+            topP={topP}
+            onTopPChange={setTopP}
+            topK={topK}
+            onTopKChange={setTopK}
             disabled={isGenerating}
           />
 
@@ -193,6 +407,8 @@ export default function Home() {
             </div>
           )}
 
+          <CostEstimate estimate={estimate} />
+
           <button
             onClick={handleGenerate}
             disabled={isGenerating || prompt.length < 3}
@@ -212,7 +428,14 @@ export default function Home() {
         </div>
 
         {/* Results Section */}
-        <ImageGallery jobs={jobs} />
+        <ImageGallery
+          jobs={jobs}
+          concurrency={effectiveConcurrency ?? undefined}
+          onRetry={isGenerating ? undefined : handleRetry}
+          onEditPrompt={handleEditPrompt}
+        />
+        </>
+        )}
       </div>
     </main>
   );
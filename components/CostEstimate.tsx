@@ -0,0 +1,47 @@
+// components/CostEstimate.tsx
+'use client';
+
+import { EstimateResponse } from '@/lib/types';
+
+interface CostEstimateProps {
+  estimate: EstimateResponse | null;
+}
+
+export default function CostEstimate({ estimate }: CostEstimateProps) {
+  if (!estimate) {
+    return null;
+  }
+
+  const { usage, cost, budget, quota, requests } = estimate;
+  const tokens = usage ? usage.promptTokens + usage.outputTokens : 0;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap justify-between gap-2 text-sm text-gray-600">
+        <span title="Estimated from the model's price table; retries cost extra">
+          Estimated cost: {cost !== undefined ? `$${cost.toFixed(3)}` : 'unknown'}
+          {tokens > 0 && ` · ~${tokens.toLocaleString()} tokens`}
+        </span>
+        {quota?.remainingToday !== undefined && (
+          <span>
+            Uses {requests} of {quota.remainingToday} requests left today
+          </span>
+        )}
+      </div>
+
+      {estimate.overBudget && budget !== undefined && (
+        <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+          This batch is expected to cost more than the ${budget.toFixed(2)} budget. Lower the number
+          of images or pick a cheaper model.
+        </div>
+      )}
+
+      {estimate.overQuota && quota && (
+        <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+          Only {quota.remainingToday} requests are left today, so some images will fail until the
+          quota resets at {new Date(quota.resetsAt).toLocaleTimeString()}.
+        </div>
+      )}
+    </div>
+  );
+}
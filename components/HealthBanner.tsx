@@ -0,0 +1,49 @@
+// components/HealthBanner.tsx
+'use client';
+
+import { useEffect, useState } from 'react';
+import { CircuitStatus, HealthResponse } from '@/lib/types';
+
+const POLL_INTERVAL = 15000; // 15 seconds
+
+// Warns while a backend's circuit breaker is failing requests fast
+export default function HealthBanner() {
+  const [circuits, setCircuits] = useState<CircuitStatus[]>([]);
+
+  useEffect(() => {
+    const check = () => {
+      fetch('/api/health')
+        .then((res) => (res.ok ? res.json() : null))
+        .then((data: HealthResponse | null) => {
+          if (data) setCircuits(data.circuits);
+        })
+        .catch(() => {
+          // Keep showing the last known state
+        });
+    };
+
+    check();
+    const timer = setInterval(check, POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, []);
+
+  const failing = circuits.filter((circuit) => circuit.state !== 'closed');
+  if (failing.length === 0) {
+    return null;
+  }
+
+  return (
+    <div role="alert" className="p-4 bg-orange-50 border border-orange-200 rounded-lg text-sm text-orange-800 space-y-1">
+      {failing.map((circuit) => (
+        <div key={circuit.provider}>
+          <span className="font-medium">{circuit.provider}</span>{' '}
+          {circuit.state === 'open'
+            ? `is failing (${circuit.failures} of the last ${circuit.requests} requests). New images fail fast until ${
+                circuit.retryAt ? new Date(circuit.retryAt).toLocaleTimeString() : 'it recovers'
+              }.`
+            : 'is recovering; the next image checks whether it is back.'}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,15 +1,89 @@
 // components/ImageCard.tsx
 'use client';
 
-import { StatusResponse } from '@/lib/types';
+import { useEffect, useState } from 'react';
+import { ErrorCode, StatusResponse } from '@/lib/types';
+import { toCssAspectRatio } from '@/lib/aspectRatios';
+import { isJobFailed } from '@/lib/jobStatus';
 
 interface ImageCardProps {
   index: number;
   job: StatusResponse | null;
   onRetry?: () => void;
+  onEditPrompt?: () => void;
 }
 
-export default function ImageCard({ index, job, onRetry }: ImageCardProps) {
+type ErrorAction = 'retry' | 'editPrompt' | null;
+
+const ERROR_DETAILS: Record<ErrorCode, { title: string; hint: string; action: ErrorAction }> = {
+  rate_limited: {
+    title: 'Rate limited',
+    hint: 'The API quota was exceeded. Wait a moment, then retry.',
+    action: 'retry',
+  },
+  safety_blocked: {
+    title: 'Blocked by safety filters',
+    hint: 'Rephrase the prompt and try again.',
+    action: 'editPrompt',
+  },
+  invalid_argument: {
+    title: 'Invalid request',
+    hint: 'Check the prompt, image and settings.',
+    action: 'editPrompt',
+  },
+  no_image_returned: {
+    title: 'No image returned',
+    hint: 'The model answered without an image. Retry or adjust the prompt.',
+    action: 'retry',
+  },
+  auth_failed: {
+    title: 'Authentication failed',
+    hint: 'The server API key is missing or invalid.',
+    action: null,
+  },
+  timeout: {
+    title: 'Timed out',
+    hint: 'The request took too long to complete.',
+    action: 'retry',
+  },
+  cancelled: {
+    title: 'Cancelled',
+    hint: 'Generation was stopped before this image finished.',
+    action: 'retry',
+  },
+  provider_unavailable: {
+    title: 'Service unavailable',
+    hint: 'The image service could not be reached. Try again later.',
+    action: 'retry',
+  },
+};
+
+// HARM_CATEGORY_DANGEROUS_CONTENT -> Dangerous content
+export function formatCategory(category: string): string {
+  const words = category.replace(/^HARM_CATEGORY_/, '').toLowerCase().replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+// Re-renders once a second while a retry is scheduled so the countdown ticks
+function useRetryCountdown(nextRetryAt?: number): number | null {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!nextRetryAt) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [nextRetryAt]);
+
+  if (!nextRetryAt) return null;
+  return Math.max(0, Math.ceil((nextRetryAt - now) / 1000));
+}
+
+export default function ImageCard({ index, job, onRetry, onEditPrompt }: ImageCardProps) {
+  const retryInSeconds = useRetryCountdown(job?.nextRetryAt);
+  const errorDetails = job?.error ? ERROR_DETAILS[job.error.code] : undefined;
+  // The model that produced the image differs from the requested one after a fallback
+  const usedFallback = Boolean(job?.model && job.params?.model && job.model !== job.params.model);
+
   const downloadImage = () => {
     if (!job?.imageUrl) return;
 
@@ -21,7 +95,10 @@ export default function ImageCard({ index, job, onRetry }: ImageCardProps) {
 
   return (
     <div className="border border-gray-300 rounded-lg overflow-hidden bg-white">
-      <div className="aspect-square relative bg-gray-100">
+      <div
+        className="relative bg-gray-100"
+        style={{ aspectRatio: toCssAspectRatio(job?.params?.aspectRatio) }}
+      >
         {job?.status === 'pending' && (
           <div className="absolute inset-0 flex items-center justify-center">
             <div className="text-gray-400">Queued</div>
@@ -29,8 +106,13 @@ export default function ImageCard({ index, job, onRetry }: ImageCardProps) {
         )}
 
         {job?.status === 'generating' && (
-          <div className="absolute inset-0 flex items-center justify-center">
+          <div className="absolute inset-0 flex flex-col items-center justify-center">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+            {retryInSeconds !== null && (
+              <div className="text-xs text-gray-600 mt-2">
+                Retrying in {retryInSeconds}s (attempt {(job.attempts ?? 1) + 1})
+              </div>
+            )}
           </div>
         )}
 
@@ -38,17 +120,35 @@ export default function ImageCard({ index, job, onRetry }: ImageCardProps) {
           <img
             src={job.imageUrl}
             alt={`Generated ${index + 1}`}
-            className="w-full h-full object-cover"
+            className="w-full h-full object-contain"
           />
         )}
 
-        {job?.status === 'error' && (
+        {job && isJobFailed(job.status) && (
           <div className="absolute inset-0 flex flex-col items-center justify-center p-4">
-            <div className="text-red-500 mb-2">✗ Error</div>
-            <div className="text-xs text-gray-600 text-center mb-2">
-              {job.error || 'Generation failed'}
+            <div className="text-red-500 mb-2">✗ {errorDetails?.title || 'Error'}</div>
+            <div className="text-xs text-gray-600 text-center mb-1">
+              {job.error?.message || 'Generation failed'}
             </div>
-            {onRetry && (
+            {errorDetails && (
+              <div className="text-xs text-gray-500 text-center mb-2">
+                {errorDetails.hint}
+              </div>
+            )}
+            {job.safety && (
+              <div className="text-xs text-gray-500 text-center mb-2">
+                {job.safety.blockReason && <div>Prompt blocked: {job.safety.blockReason}</div>}
+                {job.safety.finishReason && <div>Finish reason: {job.safety.finishReason}</div>}
+                {job.safety.ratings
+                  .filter(rating => rating.blocked)
+                  .map(rating => (
+                    <div key={rating.category} className="text-red-500">
+                      {formatCategory(rating.category)}: {rating.probability}
+                    </div>
+                  ))}
+              </div>
+            )}
+            {errorDetails?.action === 'retry' && onRetry && (
               <button
                 onClick={onRetry}
                 className="text-sm text-blue-500 hover:underline"
@@ -56,12 +156,35 @@ export default function ImageCard({ index, job, onRetry }: ImageCardProps) {
                 Retry
               </button>
             )}
+            {errorDetails?.action === 'editPrompt' && onEditPrompt && (
+              <button
+                onClick={onEditPrompt}
+                className="text-sm text-blue-500 hover:underline"
+              >
+                Edit prompt
+              </button>
+            )}
           </div>
         )}
       </div>
 
       <div className="p-2 flex items-center justify-between">
-        <span className="text-sm text-gray-600">Image {index + 1}</span>
+        <span className="text-sm text-gray-600">
+          Image {index + 1}
+          {job?.params?.seed !== undefined && (
+            <span className="text-xs text-gray-400 ml-1">· seed {job.params.seed}</span>
+          )}
+          {job?.status === 'complete' && job.provider && (
+            <span
+              title={usedFallback ? `Fallback: ${job.params?.model} failed` : undefined}
+              className={`ml-2 px-1.5 py-0.5 rounded text-xs ${
+                usedFallback ? 'bg-amber-100 text-amber-800' : 'bg-gray-100 text-gray-500'
+              }`}
+            >
+              {job.provider}
+            </span>
+          )}
+        </span>
         {job?.status === 'complete' && (
           <button
             onClick={downloadImage}
@@ -71,6 +194,13 @@ export default function ImageCard({ index, job, onRetry }: ImageCardProps) {
           </button>
         )}
       </div>
+
+      {job?.text && (
+        <details className="px-2 pb-2 text-xs text-gray-600">
+          <summary className="cursor-pointer text-gray-500">Model notes</summary>
+          <p className="mt-1 whitespace-pre-wrap">{job.text}</p>
+        </details>
+      )}
     </div>
   );
 }
@@ -2,16 +2,35 @@
 'use client';
 
 import { StatusResponse } from '@/lib/types';
-import ImageCard from './ImageCard';
+import { summarizeUsage } from '@/lib/jobStatus';
+import ImageCard, { formatCategory } from './ImageCard';
 
 interface ImageGalleryProps {
   jobs: StatusResponse[];
+  concurrency?: number; // effective concurrency of an auto batch
   onRetry?: (index: number) => void;
+  onEditPrompt?: () => void;
 }
 
-export default function ImageGallery({ jobs, onRetry }: ImageGalleryProps) {
+export default function ImageGallery({ jobs, concurrency, onRetry, onEditPrompt }: ImageGalleryProps) {
   const completedCount = jobs.filter(j => j.status === 'complete').length;
   const totalCount = jobs.length;
+  const hasUsage = jobs.some(j => j.cost !== undefined || j.usage);
+  const { usage, cost } = summarizeUsage(jobs);
+  const totalTokens = usage.promptTokens + usage.outputTokens;
+
+  // Summarise safety blocks so the prompt can be adjusted instead of retried
+  const blockedJobs = jobs.filter(j => j.error?.code === 'safety_blocked');
+  const blockedCategories = new Map<string, number>();
+  for (const job of blockedJobs) {
+    const categories = job.safety?.ratings.filter(r => r.blocked).map(r => r.category) ?? [];
+    const reasons = categories.length > 0
+      ? categories.map(formatCategory)
+      : [job.safety?.blockReason || job.safety?.finishReason || 'Unspecified'];
+    for (const reason of reasons) {
+      blockedCategories.set(reason, (blockedCategories.get(reason) ?? 0) + 1);
+    }
+  }
 
   const downloadAll = () => {
     jobs.forEach((job, index) => {
@@ -33,6 +52,17 @@ export default function ImageGallery({ jobs, onRetry }: ImageGalleryProps) {
       <div className="flex items-center justify-between">
         <div className="text-sm text-gray-600">
           Progress: {completedCount}/{totalCount} images complete
+          {concurrency !== undefined && (
+            <span className="ml-3 text-gray-500" title="Adapts to rate limiting across all batches">
+              Running {concurrency} at a time (auto)
+            </span>
+          )}
+          {hasUsage && (
+            <span className="ml-3 text-gray-500" title="Estimated from the model's price table">
+              Cost so far: ${cost.toFixed(3)}
+              {totalTokens > 0 && ` · ${totalTokens.toLocaleString()} tokens`}
+            </span>
+          )}
         </div>
         {completedCount === totalCount && completedCount > 0 && (
           <button
@@ -44,13 +74,26 @@ export default function ImageGallery({ jobs, onRetry }: ImageGalleryProps) {
         )}
       </div>
 
-      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
+      {blockedJobs.length > 0 && (
+        <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+          {blockedJobs.length} of {totalCount} images blocked by safety filters
+          {' ('}
+          {[...blockedCategories.entries()]
+            .map(([reason, count]) => `${reason} ×${count}`)
+            .join(', ')}
+          {'). '}
+          Try rephrasing the prompt.
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4 items-start">
         {jobs.map((job, index) => (
           <ImageCard
             key={job.jobId}
             index={index}
             job={job}
             onRetry={onRetry ? () => onRetry(index) : undefined}
+            onEditPrompt={onEditPrompt}
           />
         ))}
       </div>
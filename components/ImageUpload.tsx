@@ -4,41 +4,73 @@
 import { useRef, useState } from 'react';
 
 interface ImageUploadProps {
-  value: string | null;
-  onChange: (value: string | null) => void;
+  value: string[];
+  onChange: (value: string[]) => void;
+  maxImages?: number;
   disabled?: boolean;
 }
 
-export default function ImageUpload({ value, onChange, disabled }: ImageUploadProps) {
+export default function ImageUpload({ value, onChange, maxImages = 3, disabled }: ImageUploadProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [dragActive, setDragActive] = useState(false);
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
   const [error, setError] = useState<string | null>(null);
 
-  const handleFile = (file: File) => {
+  const readFile = (file: File): Promise<string> =>
+    new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = (e) => resolve(e.target?.result as string);
+      reader.onerror = () => reject(new Error('Failed to read image file'));
+      reader.readAsDataURL(file);
+    });
+
+  const handleFiles = async (files: File[]) => {
     // Clear any previous errors
     setError(null);
 
-    // Validate file type
-    if (!file.type.match('image/(jpeg|jpg|png|webp)')) {
-      setError('Please upload a JPG, PNG, or WebP image');
+    const remaining = maxImages - value.length;
+    if (remaining <= 0) {
+      setError(`You can upload up to ${maxImages} images`);
       return;
     }
 
-    // Validate file size (10MB)
-    if (file.size > 10 * 1024 * 1024) {
-      setError('Image must be less than 10MB');
-      return;
+    for (const file of files) {
+      // Validate file type
+      if (!file.type.match('image/(jpeg|jpg|png|webp)')) {
+        setError('Please upload a JPG, PNG, or WebP image');
+        return;
+      }
+
+      // Validate file size (10MB)
+      if (file.size > 10 * 1024 * 1024) {
+        setError('Image must be less than 10MB');
+        return;
+      }
+    }
+
+    if (files.length > remaining) {
+      setError(`You can upload up to ${maxImages} images`);
     }
 
     // Convert to base64
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      onChange(e.target?.result as string);
-    };
-    reader.onerror = () => {
-      setError('Failed to read image file');
-    };
-    reader.readAsDataURL(file);
+    try {
+      const added = await Promise.all(files.slice(0, remaining).map(readFile));
+      onChange([...value, ...added]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read image file');
+    }
+  };
+
+  const removeImage = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  const moveImage = (from: number, to: number) => {
+    if (to < 0 || to >= value.length || from === to) return;
+    const reordered = [...value];
+    const [moved] = reordered.splice(from, 1);
+    reordered.splice(to, 0, moved);
+    onChange(reordered);
   };
 
   const handleDrag = (e: React.DragEvent) => {
@@ -56,21 +88,23 @@ export default function ImageUpload({ value, onChange, disabled }: ImageUploadPr
     e.stopPropagation();
     setDragActive(false);
 
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      handleFile(e.dataTransfer.files[0]);
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      handleFiles(Array.from(e.dataTransfer.files));
     }
   };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      handleFile(e.target.files[0]);
+    if (e.target.files && e.target.files.length > 0) {
+      handleFiles(Array.from(e.target.files));
     }
+    // Allow selecting the same file again after removing it
+    e.target.value = '';
   };
 
   return (
     <div className="w-full">
       <label className="block text-sm font-medium text-gray-700 mb-2">
-        Upload Image (Optional)
+        Upload Images (Optional)
       </label>
 
       {error && (
@@ -79,10 +113,10 @@ export default function ImageUpload({ value, onChange, disabled }: ImageUploadPr
         </div>
       )}
 
-      <div className="flex gap-4">
+      <div className="flex flex-wrap gap-4">
         {/* Upload Area */}
         <div
-          className={`flex-1 border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors ${
+          className={`flex-1 min-w-48 border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors ${
             dragActive
               ? 'border-blue-500 bg-blue-50'
               : 'border-gray-300 hover:border-gray-400'
@@ -94,35 +128,77 @@ export default function ImageUpload({ value, onChange, disabled }: ImageUploadPr
           onClick={() => !disabled && fileInputRef.current?.click()}
         >
           <p className="text-gray-600">
-            {value ? 'Click to change image' : 'Drag & drop or click to upload'}
+            {value.length > 0 ? 'Click or drop to add more images' : 'Drag & drop or click to upload'}
+          </p>
+          <p className="text-sm text-gray-500 mt-2">
+            JPG, PNG, WebP (max 10MB, up to {maxImages} images)
           </p>
-          <p className="text-sm text-gray-500 mt-2">JPG, PNG, WebP (max 10MB)</p>
           <input
             ref={fileInputRef}
             type="file"
             accept="image/jpeg,image/jpg,image/png,image/webp"
+            multiple
             onChange={handleChange}
             disabled={disabled}
             className="hidden"
           />
         </div>
 
-        {/* Preview */}
-        {value && (
-          <div className="w-32 h-32 border border-gray-300 rounded-lg overflow-hidden relative">
-            <img src={value} alt="Preview" className="w-full h-full object-cover" />
+        {/* Previews, in the order they are sent to the model */}
+        {value.map((image, index) => (
+          <div
+            key={`${index}-${image.slice(-16)}`}
+            draggable={!disabled}
+            onDragStart={() => setDraggedIndex(index)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => {
+              e.preventDefault();
+              e.stopPropagation();
+              if (draggedIndex !== null) moveImage(draggedIndex, index);
+              setDraggedIndex(null);
+            }}
+            onDragEnd={() => setDraggedIndex(null)}
+            className={`w-32 h-32 border border-gray-300 rounded-lg overflow-hidden relative ${
+              draggedIndex === index ? 'opacity-50' : ''
+            }`}
+          >
+            <img src={image} alt={`Preview ${index + 1}`} className="w-full h-full object-cover" />
+            <span className="absolute top-1 left-1 bg-black/60 text-white text-xs rounded px-1">
+              {index + 1}
+            </span>
             <button
               onClick={(e) => {
                 e.stopPropagation();
-                onChange(null);
+                removeImage(index);
               }}
               disabled={disabled}
+              aria-label={`Remove image ${index + 1}`}
               className="absolute top-1 right-1 bg-red-500 text-white rounded-full w-6 h-6 flex items-center justify-center hover:bg-red-600 disabled:opacity-50"
             >
               ×
             </button>
+            {value.length > 1 && (
+              <div className="absolute bottom-1 inset-x-1 flex justify-between">
+                <button
+                  onClick={() => moveImage(index, index - 1)}
+                  disabled={disabled || index === 0}
+                  aria-label={`Move image ${index + 1} earlier`}
+                  className="bg-white/80 rounded w-6 h-6 text-xs disabled:opacity-30"
+                >
+                  ←
+                </button>
+                <button
+                  onClick={() => moveImage(index, index + 1)}
+                  disabled={disabled || index === value.length - 1}
+                  aria-label={`Move image ${index + 1} later`}
+                  className="bg-white/80 rounded w-6 h-6 text-xs disabled:opacity-30"
+                >
+                  →
+                </button>
+              </div>
+            )}
           </div>
-        )}
+        ))}
       </div>
     </div>
   );
@@ -6,10 +6,11 @@ import { GenerationMode } from '@/lib/types';
 interface ModeSelectorProps {
   value: GenerationMode;
   onChange: (value: GenerationMode) => void;
+  imageCount?: number;
   disabled?: boolean;
 }
 
-export default function ModeSelector({ value, onChange, disabled }: ModeSelectorProps) {
+export default function ModeSelector({ value, onChange, imageCount = 1, disabled }: ModeSelectorProps) {
   return (
     <div className="w-full">
       <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -47,6 +48,22 @@ export default function ModeSelector({ value, onChange, disabled }: ModeSelector
             <p className="text-sm text-gray-500">Use as style/composition guide</p>
           </div>
         </label>
+
+        <label className={`flex items-center ${imageCount < 2 ? 'opacity-50' : 'cursor-pointer'}`}>
+          <input
+            type="radio"
+            name="mode"
+            value="compose"
+            checked={value === 'compose'}
+            onChange={() => onChange('compose')}
+            disabled={disabled || imageCount < 2}
+            className="mr-2"
+          />
+          <div>
+            <span className="font-medium">Compose</span>
+            <p className="text-sm text-gray-500">Combine subjects from several images</p>
+          </div>
+        </label>
       </div>
     </div>
   );
@@ -0,0 +1,273 @@
+// components/SessionPanel.tsx
+'use client';
+
+import { useEffect, useState } from 'react';
+import { SessionResponse, SessionTurnResponse } from '@/lib/types';
+import ImageUpload from '@/components/ImageUpload';
+import ImageCard from '@/components/ImageCard';
+
+interface SessionPanelProps {
+  temperature: number;
+  aspectRatio: string;
+  includeText: boolean;
+}
+
+const POLL_INTERVAL = 2000; // 2 seconds
+
+function isPending(turn: SessionTurnResponse): boolean {
+  return turn.job.status === 'pending' || turn.job.status === 'generating';
+}
+
+// Follow the newest child at each step so switching branches lands on its latest turn
+function latestLeaf(turns: SessionTurnResponse[], turnId: string): string {
+  let current = turnId;
+  for (;;) {
+    const children = turns.filter((turn) => turn.parentId === current);
+    if (children.length === 0) return current;
+    current = children[children.length - 1].turnId;
+  }
+}
+
+export default function SessionPanel({ temperature, aspectRatio, includeText }: SessionPanelProps) {
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [turns, setTurns] = useState<SessionTurnResponse[]>([]);
+  const [activeTurnId, setActiveTurnId] = useState<string | null>(null);
+  const [branchFromId, setBranchFromId] = useState<string | null>(null);
+  const [prompt, setPrompt] = useState('');
+  const [images, setImages] = useState<string[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const hasPendingTurns = turns.some(isPending);
+
+  // Poll while any turn is still generating
+  useEffect(() => {
+    if (!sessionId || !hasPendingTurns) return;
+
+    const timer = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/sessions/${sessionId}/turns`);
+        if (!response.ok) {
+          throw new Error('Failed to fetch conversation');
+        }
+        const data: SessionResponse = await response.json();
+        setTurns(data.turns);
+      } catch (err) {
+        setError(err instanceof Error ? `Polling error: ${err.message}` : 'Network error during polling');
+      }
+    }, POLL_INTERVAL);
+
+    return () => clearInterval(timer);
+  }, [sessionId, hasPendingTurns]);
+
+  // The conversation shown is the path from the root to the active turn
+  const byId = new Map(turns.map((turn) => [turn.turnId, turn]));
+  const path: SessionTurnResponse[] = [];
+  for (let turn = activeTurnId ? byId.get(activeTurnId) : undefined; turn; ) {
+    path.unshift(turn);
+    turn = turn.parentId ? byId.get(turn.parentId) : undefined;
+  }
+
+  const parentTurnId = branchFromId ?? activeTurnId;
+  const parentTurn = parentTurnId ? byId.get(parentTurnId) : undefined;
+  const canSubmit =
+    !isSubmitting && prompt.length >= 3 && (!parentTurn || parentTurn.job.status === 'complete');
+
+  const ensureSession = async (): Promise<string> => {
+    if (sessionId) return sessionId;
+
+    const response = await fetch('/api/sessions', { method: 'POST' });
+    if (!response.ok) {
+      throw new Error('Failed to start conversation');
+    }
+    const data = await response.json();
+    setSessionId(data.sessionId);
+    return data.sessionId;
+  };
+
+  const handleSend = async () => {
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      const id = await ensureSession();
+      const response = await fetch(`/api/sessions/${id}/turns`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          prompt,
+          parentTurnId: parentTurnId ?? null,
+          images: images.length > 0 ? images : undefined,
+          temperature,
+          aspectRatio,
+          includeText: includeText || undefined,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to send message');
+      }
+
+      const turn: SessionTurnResponse = data;
+      setTurns((current) => [...current, turn]);
+      setActiveTurnId(turn.turnId);
+      setBranchFromId(null);
+      setPrompt('');
+      setImages([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleNewConversation = () => {
+    setSessionId(null);
+    setTurns([]);
+    setActiveTurnId(null);
+    setBranchFromId(null);
+    setError(null);
+  };
+
+  const switchSibling = (turn: SessionTurnResponse, offset: number) => {
+    const siblings = turns.filter((other) => other.parentId === turn.parentId);
+    const next = siblings[siblings.indexOf(turn) + offset];
+    if (next) {
+      setActiveTurnId(latestLeaf(turns, next.turnId));
+      setBranchFromId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          Each message refines the previous image. Branch from any earlier turn to try an alternative.
+          Temperature, aspect ratio and commentary follow the Batch tab settings.
+        </p>
+        {turns.length > 0 && (
+          <button
+            onClick={handleNewConversation}
+            disabled={isSubmitting}
+            className="text-sm text-blue-600 hover:underline disabled:opacity-50"
+          >
+            New conversation
+          </button>
+        )}
+      </div>
+
+      {/* Conversation */}
+      {path.length > 0 && (
+        <div className="space-y-6">
+          {path.map((turn, index) => {
+            const siblings = turns.filter((other) => other.parentId === turn.parentId);
+            const position = siblings.indexOf(turn);
+
+            return (
+              <div key={turn.turnId} className="space-y-3">
+                {/* User message */}
+                <div className="flex justify-end">
+                  <div className="max-w-xl bg-blue-50 border border-blue-100 rounded-lg p-3 space-y-2">
+                    <p className="text-sm text-gray-800 whitespace-pre-wrap">{turn.prompt}</p>
+                    {turn.images.length > 0 && (
+                      <div className="flex gap-2">
+                        {turn.images.map((image, i) => (
+                          <img
+                            key={i}
+                            src={image}
+                            alt={`Turn ${index + 1} input ${i + 1}`}
+                            className="w-16 h-16 object-cover rounded border border-gray-200"
+                          />
+                        ))}
+                      </div>
+                    )}
+                    {siblings.length > 1 && (
+                      <div className="flex items-center gap-2 text-xs text-gray-500">
+                        <button
+                          onClick={() => switchSibling(turn, -1)}
+                          disabled={position === 0}
+                          aria-label="Previous variant"
+                          className="disabled:opacity-30"
+                        >
+                          ‹
+                        </button>
+                        <span>
+                          {position + 1} / {siblings.length}
+                        </span>
+                        <button
+                          onClick={() => switchSibling(turn, 1)}
+                          disabled={position === siblings.length - 1}
+                          aria-label="Next variant"
+                          className="disabled:opacity-30"
+                        >
+                          ›
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                </div>
+
+                {/* Model response */}
+                <div className="max-w-md">
+                  <ImageCard index={index} job={turn.job} />
+                  {turn.job.status === 'complete' && turn.turnId !== parentTurnId && (
+                    <button
+                      onClick={() => setBranchFromId(turn.turnId)}
+                      className="mt-2 text-sm text-blue-600 hover:underline"
+                    >
+                      Branch from here
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Composer */}
+      <div className="bg-white rounded-lg shadow-md p-6 space-y-4">
+        {branchFromId && (
+          <div className="flex items-center justify-between p-3 bg-purple-50 border border-purple-200 rounded-lg text-sm text-purple-800">
+            <span>Branching from turn {path.findIndex((turn) => turn.turnId === branchFromId) + 1}</span>
+            <button onClick={() => setBranchFromId(null)} className="hover:underline">
+              Cancel branch
+            </button>
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="session-prompt" className="block text-sm font-medium text-gray-700 mb-2">
+            {path.length > 0 ? 'Next instruction' : 'Text Prompt'}
+          </label>
+          <textarea
+            id="session-prompt"
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            disabled={isSubmitting}
+            placeholder={path.length > 0 ? 'e.g. make the sky more dramatic' : 'Enter your image prompt...'}
+            rows={3}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100 disabled:cursor-not-allowed resize-none"
+          />
+        </div>
+
+        <ImageUpload value={images} onChange={setImages} disabled={isSubmitting} />
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">
+            {error}
+          </div>
+        )}
+
+        <button
+          onClick={handleSend}
+          disabled={!canSubmit}
+          className="w-full py-3 bg-blue-500 text-white rounded-lg font-medium hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+        >
+          {isSubmitting ? 'Sending...' : parentTurn && isPending(parentTurn) ? 'Waiting for the last image...' : 'Send'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,29 +1,104 @@
 // components/SettingsPanel.tsx
 'use client';
 
+import { ASPECT_RATIOS, toCssAspectRatio } from '@/lib/aspectRatios';
+import { ModelInfo } from '@/lib/types';
+
 interface SettingsPanelProps {
+  models: ModelInfo[];
+  model: string;
+  onModelChange: (value: string) => void;
   imageCount: number;
   onImageCountChange: (value: number) => void;
   concurrency: number;
   onConcurrencyChange: (value: number) => void;
+  autoConcurrency: boolean;
+  onAutoConcurrencyChange: (value: boolean) => void;
   temperature: number;
   onTemperatureChange: (value: number) => void;
+  aspectRatio: string;
+  onAspectRatioChange: (value: string) => void;
+  includeText: boolean;
+  onIncludeTextChange: (value: boolean) => void;
+  seed: number | null;
+  onSeedChange: (value: number | null) => void;
+  topP: number | null;
+  onTopPChange: (value: number | null) => void;
+  topK: number | null;
+  onTopKChange: (value: number | null) => void;
   disabled?: boolean;
 }
 
+// Empty inputs fall back to the model default
+function parseOptional(value: string, parse: (value: string) => number): number | null {
+  if (value.trim() === '') return null;
+  const parsed = parse(value);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+// 0.039 -> "$0.039"
+function formatCost(cost: number): string {
+  return cost === 0 ? 'free' : `$${cost.toFixed(3)}`;
+}
+
 export default function SettingsPanel({
+  models,
+  model,
+  onModelChange,
   imageCount,
   onImageCountChange,
   concurrency,
   onConcurrencyChange,
+  autoConcurrency,
+  onAutoConcurrencyChange,
   temperature,
   onTemperatureChange,
+  aspectRatio,
+  onAspectRatioChange,
+  includeText,
+  onIncludeTextChange,
+  seed,
+  onSeedChange,
+  topP,
+  onTopPChange,
+  topK,
+  onTopKChange,
   disabled,
 }: SettingsPanelProps) {
+  const selectedModel = models.find((m) => m.id === model);
+  const aspectRatios = selectedModel?.aspectRatios ?? ASPECT_RATIOS;
+
   return (
     <div className="w-full space-y-4">
       <h3 className="text-sm font-medium text-gray-700">Settings</h3>
 
+      {/* Model */}
+      {models.length > 0 && (
+        <div>
+          <label htmlFor="model" className="block text-sm text-gray-600 mb-2">
+            Model
+          </label>
+          <select
+            id="model"
+            value={model}
+            onChange={(e) => onModelChange(e.target.value)}
+            disabled={disabled}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg disabled:bg-gray-100"
+          >
+            {models.map((m) => (
+              <option key={m.id} value={m.id}>
+                {m.label} ({formatCost(m.costPerImage)} per image)
+              </option>
+            ))}
+          </select>
+          {selectedModel && (
+            <p className="text-xs text-gray-500 mt-1">
+              Up to {selectedModel.maxInputImages} input images, {selectedModel.maxPromptLength.toLocaleString()} prompt characters
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Image Count */}
       <div>
         <label className="block text-sm text-gray-600 mb-2">
@@ -46,16 +121,30 @@ export default function SettingsPanel({
 
       {/* Concurrency */}
       <div>
-        <label className="block text-sm text-gray-600 mb-2">
-          Concurrency: {concurrency}
-        </label>
+        <div className="flex items-center justify-between mb-2">
+          <label className="block text-sm text-gray-600">
+            Concurrency: {autoConcurrency ? 'auto' : concurrency}
+          </label>
+          <label
+            className="flex items-center gap-2 text-sm text-gray-600"
+            title="Start low, speed up while requests succeed and slow down on rate limits"
+          >
+            <input
+              type="checkbox"
+              checked={autoConcurrency}
+              onChange={(e) => onAutoConcurrencyChange(e.target.checked)}
+              disabled={disabled}
+            />
+            Auto
+          </label>
+        </div>
         <input
           type="range"
           min="1"
           max="5"
           value={concurrency}
           onChange={(e) => onConcurrencyChange(parseInt(e.target.value))}
-          disabled={disabled}
+          disabled={disabled || autoConcurrency}
           className="w-full"
         />
         <div className="flex justify-between text-xs text-gray-500">
@@ -84,6 +173,108 @@ export default function SettingsPanel({
           <span>2.0</span>
         </div>
       </div>
+
+      {/* Aspect Ratio */}
+      <div>
+        <label className="block text-sm text-gray-600 mb-2">
+          Aspect Ratio: {aspectRatio}
+        </label>
+        <div className="flex flex-wrap gap-2">
+          {aspectRatios.map((ratio) => (
+            <button
+              key={ratio}
+              type="button"
+              onClick={() => onAspectRatioChange(ratio)}
+              disabled={disabled}
+              aria-pressed={ratio === aspectRatio}
+              className={`flex items-center gap-1 px-2 py-1 text-xs border rounded-lg disabled:opacity-50 ${
+                ratio === aspectRatio
+                  ? 'border-blue-500 bg-blue-50 text-blue-700'
+                  : 'border-gray-300 text-gray-600 hover:border-gray-400'
+              }`}
+            >
+              <span
+                className="inline-block h-3 border border-current"
+                style={{ aspectRatio: toCssAspectRatio(ratio) }}
+              />
+              {ratio}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Model Commentary */}
+      <label className="flex items-center gap-2 text-sm text-gray-600">
+        <input
+          type="checkbox"
+          checked={includeText}
+          onChange={(e) => onIncludeTextChange(e.target.checked)}
+          disabled={disabled}
+        />
+        Include model commentary
+      </label>
+
+      {/* Advanced */}
+      <details>
+        <summary className="text-sm text-gray-600 cursor-pointer">Advanced</summary>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-3">
+          <div>
+            <label htmlFor="seed" className="block text-sm text-gray-600 mb-2">
+              Seed
+            </label>
+            <input
+              id="seed"
+              type="number"
+              min="0"
+              step="1"
+              placeholder="Random"
+              value={seed ?? ''}
+              onChange={(e) => onSeedChange(parseOptional(e.target.value, parseInt))}
+              disabled={disabled}
+              className="w-full px-3 py-1 border border-gray-300 rounded-lg disabled:bg-gray-100"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="topP" className="block text-sm text-gray-600 mb-2">
+              Top P
+            </label>
+            <input
+              id="topP"
+              type="number"
+              min="0"
+              max="1"
+              step="0.05"
+              placeholder="Default"
+              value={topP ?? ''}
+              onChange={(e) => onTopPChange(parseOptional(e.target.value, parseFloat))}
+              disabled={disabled}
+              className="w-full px-3 py-1 border border-gray-300 rounded-lg disabled:bg-gray-100"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="topK" className="block text-sm text-gray-600 mb-2">
+              Top K
+            </label>
+            <input
+              id="topK"
+              type="number"
+              min="1"
+              max="100"
+              step="1"
+              placeholder="Default"
+              value={topK ?? ''}
+              onChange={(e) => onTopKChange(parseOptional(e.target.value, parseInt))}
+              disabled={disabled}
+              className="w-full px-3 py-1 border border-gray-300 rounded-lg disabled:bg-gray-100"
+            />
+          </div>
+        </div>
+        <p className="text-xs text-gray-500 mt-2">
+          With a seed set, image N in the batch uses seed + N so results can be reproduced.
+        </p>
+      </details>
     </div>
   );
 }
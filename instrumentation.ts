@@ -0,0 +1,8 @@
+// instrumentation.ts
+// Runs once as the server starts, before it serves any request
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { recoverInterruptedJobs } = await import('./lib/jobProcessor');
+    recoverInterruptedJobs();
+  }
+}
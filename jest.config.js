@@ -5,6 +5,11 @@ const tsJestTransformCfg = createDefaultPreset().transform;
 /** @type {import("jest").Config} **/
 module.exports = {
   testEnvironment: "node",
+  // tests/e2e holds the Playwright specs, run with `npm run test:e2e`
+  testPathIgnorePatterns: ["/node_modules/", "/tests/e2e/"],
+  moduleNameMapper: {
+    "^@/(.*)$": "<rootDir>/$1",
+  },
   transform: {
     ...tsJestTransformCfg,
   },
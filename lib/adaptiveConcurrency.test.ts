@@ -0,0 +1,68 @@
+// lib/adaptiveConcurrency.test.ts
+import { describe, it, expect } from '@jest/globals';
+import { ConcurrencyLimiter } from './adaptiveConcurrency';
+import { RateLimitedError } from './errors';
+
+const rateLimited = async () => {
+  throw new RateLimitedError('quota');
+};
+
+describe('ConcurrencyLimiter', () => {
+  it('ramps up by about one per round of successes', async () => {
+    const limiter = new ConcurrencyLimiter();
+    expect(limiter.concurrency).toBe(1);
+
+    await limiter.track(async () => 'ok');
+    expect(limiter.concurrency).toBe(2);
+
+    await limiter.track(async () => 'ok');
+    expect(limiter.concurrency).toBe(2);
+    await limiter.track(async () => 'ok');
+    expect(limiter.concurrency).toBe(3);
+  });
+
+  it('halves on a rate limit, once per burst', async () => {
+    let now = 0;
+    const limiter = new ConcurrencyLimiter({ initial: 8, now: () => now });
+
+    // Both requests were in flight before the first 429 came back
+    const first = limiter.track(rateLimited);
+    const second = limiter.track(rateLimited);
+    now = 1;
+    await expect(first).rejects.toThrow('quota');
+    await expect(second).rejects.toThrow('quota');
+    expect(limiter.concurrency).toBe(4);
+
+    await expect(limiter.track(rateLimited)).rejects.toThrow('quota');
+    expect(limiter.concurrency).toBe(2);
+  });
+
+  it('never drops below one or climbs past the maximum', async () => {
+    const limiter = new ConcurrencyLimiter({ initial: 2, max: 3 });
+
+    for (let i = 0; i < 5; i++) {
+      limiter.recordRateLimited(Infinity);
+    }
+    expect(limiter.concurrency).toBe(1);
+
+    for (let i = 0; i < 20; i++) {
+      limiter.recordSuccess();
+    }
+    expect(limiter.concurrency).toBe(3);
+  });
+
+  it('hands out slots up to the current limit', async () => {
+    const limiter = new ConcurrencyLimiter({ initial: 2 });
+    const releaseFirst = await limiter.acquire();
+    await limiter.acquire();
+
+    let thirdAcquired = false;
+    const third = limiter.acquire().then(() => (thirdAcquired = true));
+    await Promise.resolve();
+    expect(thirdAcquired).toBe(false);
+
+    releaseFirst();
+    await third;
+    expect(thirdAcquired).toBe(true);
+  });
+});
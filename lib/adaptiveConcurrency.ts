@@ -0,0 +1,103 @@
+// lib/adaptiveConcurrency.ts
+import { classifyError } from './errors';
+import { ImageProvider } from './provider';
+import { serverState } from './serverState';
+
+export interface ConcurrencyLimiterOptions {
+  initial?: number;
+  max?: number;
+  now?: () => number;
+}
+
+export const MAX_AUTO_CONCURRENCY = 10;
+
+/**
+ * AIMD limit on requests in flight: it starts low, grows by about one per
+ * round of successful requests and halves on a 429. Requests that started
+ * before the last cut don't cut it again, so one burst of 429s halves once.
+ */
+export class ConcurrencyLimiter {
+  private limit: number;
+  private max: number;
+  private now: () => number;
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private lastDecreaseAt = -Infinity;
+
+  constructor(options: ConcurrencyLimiterOptions = {}) {
+    this.limit = options.initial ?? 1;
+    this.max = options.max ?? MAX_AUTO_CONCURRENCY;
+    this.now = options.now ?? Date.now;
+  }
+
+  // The number of requests allowed in flight right now
+  get concurrency(): number {
+    return Math.floor(this.limit);
+  }
+
+  // Waits for a free slot; call the returned function to give it back
+  acquire(): Promise<() => void> {
+    return new Promise((resolve) => {
+      this.waiting.push(() => {
+        let released = false;
+        resolve(() => {
+          if (released) return;
+          released = true;
+          this.active--;
+          this.drain();
+        });
+      });
+      this.drain();
+    });
+  }
+
+  // Runs one upstream request and adjusts the limit by how it went
+  async track<T>(fn: () => Promise<T>): Promise<T> {
+    const startedAt = this.now();
+    try {
+      const result = await fn();
+      this.recordSuccess();
+      return result;
+    } catch (error) {
+      if (classifyError(error).code === 'rate_limited') {
+        this.recordRateLimited(startedAt);
+      }
+      throw error;
+    }
+  }
+
+  recordSuccess(): void {
+    this.limit = Math.min(this.max, this.limit + 1 / this.concurrency);
+    this.drain();
+  }
+
+  recordRateLimited(startedAt: number): void {
+    if (startedAt < this.lastDecreaseAt) return;
+    this.limit = Math.max(1, this.limit / 2);
+    this.lastDecreaseAt = this.now();
+  }
+
+  private drain(): void {
+    while (this.waiting.length > 0 && this.active < this.concurrency) {
+      this.active++;
+      this.waiting.shift()!();
+    }
+  }
+}
+
+const limiters = serverState('concurrencyLimiters', () => new Map<string, ConcurrencyLimiter>());
+
+/**
+ * The limiter for a provider's credentials, shared by every batch. Providers
+ * on the same keys, like Gemini and Imagen, share one through
+ * `rateLimitGroup`.
+ */
+export function getConcurrencyLimiter(provider: ImageProvider): ConcurrencyLimiter {
+  const key = provider.rateLimitGroup ?? provider.name;
+  let limiter = limiters.get(key);
+  if (!limiter) {
+    limiter = new ConcurrencyLimiter();
+    limiters.set(key, limiter);
+  }
+  return limiter;
+}
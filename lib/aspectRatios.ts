@@ -0,0 +1,26 @@
+// lib/aspectRatios.ts
+
+// Aspect ratios supported by gemini-2.5-flash-image
+export const ASPECT_RATIOS = [
+  '1:1',
+  '2:3',
+  '3:2',
+  '3:4',
+  '4:3',
+  '4:5',
+  '5:4',
+  '9:16',
+  '16:9',
+  '21:9',
+];
+
+export const DEFAULT_ASPECT_RATIO = '1:1';
+
+export function isAspectRatio(value: unknown): value is string {
+  return typeof value === 'string' && ASPECT_RATIOS.includes(value);
+}
+
+// "16:9" -> "16 / 9", for the CSS aspect-ratio property
+export function toCssAspectRatio(aspectRatio: string = DEFAULT_ASPECT_RATIO): string {
+  return aspectRatio.replace(':', ' / ');
+}
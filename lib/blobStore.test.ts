@@ -0,0 +1,158 @@
+// lib/blobStore.test.ts
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, rmSync } from 'fs';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BlobStore, createBlobStoreFromEnv, LocalBlobStore, MemoryBlobStore, S3BlobStore } from './blobStore';
+
+async function read(store: BlobStore, id: string): Promise<string | undefined> {
+  const blob = await store.get(id);
+  return blob && Buffer.from(await new Response(blob.body).arrayBuffer()).toString();
+}
+
+describe('LocalBlobStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'blob-store-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('stores, streams back and deletes blobs', async () => {
+    const store: BlobStore = new LocalBlobStore(join(dir, 'images'));
+
+    await store.put('job-1.png', Buffer.from('fox'), 'image/png');
+
+    expect(await store.get('job-1.png')).toMatchObject({ contentType: 'image/png', size: 3 });
+    expect(await read(store, 'job-1.png')).toBe('fox');
+
+    await store.delete('job-1.png');
+    expect(await store.get('job-1.png')).toBeUndefined();
+  });
+
+  it('rejects ids that would leave its directory', async () => {
+    const store: BlobStore = new LocalBlobStore(dir);
+
+    await expect(store.put('../escape.png', Buffer.from('fox'), 'image/png')).rejects.toThrow('Invalid blob id');
+    await expect(store.get('a/b.png')).rejects.toThrow('Invalid blob id');
+  });
+
+  it('rejects content types its ids cannot carry', async () => {
+    const store: BlobStore = new LocalBlobStore(dir);
+
+    await expect(store.put('job-1.png', Buffer.from('fox'), 'image/jpeg')).rejects.toThrow('cannot be stored');
+    await expect(store.put('job-1.bin', Buffer.from('fox'), 'image/gif')).rejects.toThrow('cannot be stored');
+  });
+});
+
+describe('S3BlobStore', () => {
+  // Minimal stand-in for an S3 bucket that records what it receives
+  let server: Server;
+  let endpoint: string;
+  let objects: Map<string, { body: Buffer; contentType: string }>;
+  let requests: Array<{ method: string; path: string; headers: IncomingMessage['headers'] }>;
+
+  beforeAll(async () => {
+    server = createServer((req: IncomingMessage, res: ServerResponse) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => {
+        const path = req.url ?? '';
+        requests.push({ method: req.method ?? '', path, headers: req.headers });
+
+        const object = objects.get(path);
+        if (req.method === 'PUT') {
+          objects.set(path, { body: Buffer.concat(chunks), contentType: req.headers['content-type'] ?? '' });
+          res.writeHead(200).end();
+        } else if (req.method === 'DELETE') {
+          objects.delete(path);
+          res.writeHead(204).end();
+        } else if (object) {
+          res.writeHead(200, { 'Content-Type': object.contentType, 'Content-Length': object.body.length });
+          res.end(object.body);
+        } else {
+          res.writeHead(404, { 'Content-Type': 'application/xml' }).end('<Error><Code>NoSuchKey</Code></Error>');
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    objects = new Map();
+    requests = [];
+  });
+
+  function createStore(): S3BlobStore {
+    return new S3BlobStore({
+      endpoint: `${endpoint}/`,
+      bucket: 'images',
+      region: 'eu-west-1',
+      prefix: 'generated/',
+      accessKeyId: 'AKIDEXAMPLE',
+      secretAccessKey: 'secret',
+      now: () => Date.UTC(2025, 0, 2, 3, 4, 5),
+    });
+  }
+
+  it('puts signed objects under the bucket and prefix', async () => {
+    await createStore().put('job-1.png', Buffer.from('fox'), 'image/png');
+
+    expect(objects.get('/images/generated/job-1.png')).toEqual({ body: Buffer.from('fox'), contentType: 'image/png' });
+    expect(requests[0].headers).toMatchObject({
+      'x-amz-date': '20250102T030405Z',
+      'x-amz-content-sha256': '776cb326ab0cd5f0a974c1b9606044d8485201f2db19cf8e3749bdee5f36e200', // sha256('fox')
+    });
+    expect(requests[0].headers.authorization).toMatch(
+      /^AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE\/20250102\/eu-west-1\/s3\/aws4_request, SignedHeaders=host;x-amz-content-sha256;x-amz-date, Signature=[0-9a-f]{64}$/
+    );
+  });
+
+  it('streams objects back with their content type', async () => {
+    const store = createStore();
+    await store.put('job-1.png', Buffer.from('fox'), 'image/png');
+
+    expect(await store.get('job-1.png')).toMatchObject({ contentType: 'image/png', size: 3 });
+    expect(await read(store, 'job-1.png')).toBe('fox');
+  });
+
+  it('treats missing and deleted objects as absent', async () => {
+    const store = createStore();
+    await store.put('job-1.png', Buffer.from('fox'), 'image/png');
+
+    await store.delete('job-1.png');
+
+    expect(await store.get('job-1.png')).toBeUndefined();
+    expect(requests.map((request) => request.method)).toEqual(['PUT', 'DELETE', 'GET']);
+  });
+});
+
+describe('createBlobStoreFromEnv', () => {
+  afterEach(() => {
+    delete process.env.BLOB_STORE_DIR;
+    delete process.env.JOB_STORE_PATH;
+  });
+
+  it('keeps images in memory when the jobs are', () => {
+    expect(createBlobStoreFromEnv()).toBeInstanceOf(MemoryBlobStore);
+  });
+
+  it('writes files when jobs persist or a directory is given', () => {
+    process.env.JOB_STORE_PATH = 'data/jobs.json';
+    expect(createBlobStoreFromEnv()).toBeInstanceOf(LocalBlobStore);
+
+    delete process.env.JOB_STORE_PATH;
+    process.env.BLOB_STORE_DIR = 'images';
+    expect(createBlobStoreFromEnv()).toBeInstanceOf(LocalBlobStore);
+  });
+});
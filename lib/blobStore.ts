@@ -0,0 +1,271 @@
+// lib/blobStore.ts
+import { createHash, createHmac } from 'crypto';
+import { createReadStream } from 'fs';
+import { mkdir, rename, rm, stat, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { Readable } from 'stream';
+
+export interface StoredBlob {
+  body: ReadableStream<Uint8Array>;
+  contentType: string;
+  size?: number; // bytes, when the store knows it up front
+}
+
+/**
+ * Where generated images live once a job completes. Ids are flat file
+ * names such as `<jobId>.png`; an id is written once and never changes.
+ */
+export interface BlobStore {
+  put(id: string, data: Buffer, contentType: string): Promise<void>;
+  get(id: string): Promise<StoredBlob | undefined>;
+  delete(id: string): Promise<void>;
+}
+
+const BLOB_ID_PATTERN = /^[\w-]+(\.[\w-]+)*$/;
+
+export function isBlobId(id: string): boolean {
+  return BLOB_ID_PATTERN.test(id);
+}
+
+function assertBlobId(id: string): void {
+  if (!isBlobId(id)) {
+    throw new Error(`Invalid blob id: ${id}`);
+  }
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  webp: 'image/webp',
+};
+
+function contentTypeFor(id: string): string {
+  return CONTENT_TYPES[id.split('.').pop() ?? ''] ?? 'application/octet-stream';
+}
+
+export class MemoryBlobStore implements BlobStore {
+  private blobs = new Map<string, { data: Buffer; contentType: string }>();
+
+  async put(id: string, data: Buffer, contentType: string): Promise<void> {
+    assertBlobId(id);
+    this.blobs.set(id, { data, contentType });
+  }
+
+  async get(id: string): Promise<StoredBlob | undefined> {
+    const blob = this.blobs.get(id);
+    if (!blob) return undefined;
+    return {
+      body: new Blob([new Uint8Array(blob.data)]).stream(),
+      contentType: blob.contentType,
+      size: blob.data.length,
+    };
+  }
+
+  async delete(id: string): Promise<void> {
+    this.blobs.delete(id);
+  }
+}
+
+/**
+ * Keeps each blob as a file in one directory. The content type comes back
+ * from the id's extension, so ids must carry the one for their type.
+ */
+export class LocalBlobStore implements BlobStore {
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  // Write then rename, so a half-written file is never served
+  async put(id: string, data: Buffer, contentType: string): Promise<void> {
+    const path = this.pathFor(id);
+    if (contentTypeFor(id) !== contentType) {
+      throw new Error(`Blob ${id} cannot be stored as ${contentType}`);
+    }
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(`${path}.tmp`, data);
+    await rename(`${path}.tmp`, path);
+  }
+
+  async get(id: string): Promise<StoredBlob | undefined> {
+    const path = this.pathFor(id);
+    try {
+      const { size } = await stat(path);
+      return {
+        body: Readable.toWeb(createReadStream(path)) as ReadableStream<Uint8Array>,
+        contentType: contentTypeFor(id),
+        size,
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    await rm(this.pathFor(id), { force: true });
+  }
+
+  private pathFor(id: string): string {
+    assertBlobId(id);
+    return join(this.dir, id);
+  }
+}
+
+export interface S3BlobStoreOptions {
+  endpoint: string; // e.g. https://s3.us-east-1.amazonaws.com or http://127.0.0.1:9000 for MinIO
+  bucket: string;
+  region?: string; // defaults to us-east-1, which MinIO accepts too
+  accessKeyId: string;
+  secretAccessKey: string;
+  prefix?: string; // key prefix inside the bucket, e.g. images/
+  now?: () => number;
+}
+
+/**
+ * Stores blobs as objects in an S3-compatible bucket (AWS S3, MinIO,
+ * Cloudflare R2, ...) using path-style URLs and Signature Version 4.
+ */
+export class S3BlobStore implements BlobStore {
+  private endpoint: string;
+  private bucket: string;
+  private region: string;
+  private accessKeyId: string;
+  private secretAccessKey: string;
+  private prefix: string;
+  private now: () => number;
+
+  constructor(options: S3BlobStoreOptions) {
+    this.endpoint = options.endpoint.replace(/\/+$/, '');
+    this.bucket = options.bucket;
+    this.region = options.region ?? 'us-east-1';
+    this.accessKeyId = options.accessKeyId;
+    this.secretAccessKey = options.secretAccessKey;
+    this.prefix = options.prefix ?? '';
+    this.now = options.now ?? Date.now;
+  }
+
+  async put(id: string, data: Buffer, contentType: string): Promise<void> {
+    const response = await this.request('PUT', id, data, contentType);
+    if (!response.ok) {
+      throw new Error(`S3 PUT ${id} failed with status ${response.status}: ${await response.text()}`);
+    }
+  }
+
+  async get(id: string): Promise<StoredBlob | undefined> {
+    const response = await this.request('GET', id);
+    if (response.status === 404) {
+      await response.body?.cancel();
+      return undefined;
+    }
+    if (!response.ok || !response.body) {
+      throw new Error(`S3 GET ${id} failed with status ${response.status}: ${await response.text()}`);
+    }
+
+    const length = response.headers.get('content-length');
+    return {
+      body: response.body,
+      contentType: response.headers.get('content-type') || contentTypeFor(id),
+      size: length !== null ? Number(length) : undefined,
+    };
+  }
+
+  // S3 answers 204 whether or not the object existed
+  async delete(id: string): Promise<void> {
+    const response = await this.request('DELETE', id);
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 DELETE ${id} failed with status ${response.status}: ${await response.text()}`);
+    }
+  }
+
+  private async request(method: string, id: string, body?: Buffer, contentType?: string): Promise<Response> {
+    assertBlobId(id);
+    const url = new URL(`${this.endpoint}/${this.bucket}/${this.prefix}${id}`);
+    const headers = this.sign(method, url, body ?? Buffer.alloc(0));
+    if (contentType) {
+      headers['Content-Type'] = contentType;
+    }
+    return fetch(url, { method, headers, body: body ? new Uint8Array(body) : undefined });
+  }
+
+  // https://docs.aws.amazon.com/AmazonS3/latest/API/sig-v4-header-based-auth.html
+  private sign(method: string, url: URL, body: Buffer): Record<string, string> {
+    const amzDate = new Date(this.now()).toISOString().replace(/[-:]|\.\d{3}/g, ''); // 20250101T000000Z
+    const date = amzDate.slice(0, 8);
+    const payloadHash = sha256(body);
+
+    const canonicalPath = url.pathname
+      .split('/')
+      .map((segment) => encodeRfc3986(decodeURIComponent(segment)))
+      .join('/');
+    const canonicalHeaders = `host:${url.host}\nx-amz-content-sha256:${payloadHash}\nx-amz-date:${amzDate}\n`;
+    const signedHeaders = 'host;x-amz-content-sha256;x-amz-date';
+    const canonicalRequest = [method, canonicalPath, '', canonicalHeaders, signedHeaders, payloadHash].join('\n');
+
+    const scope = `${date}/${this.region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${this.secretAccessKey}`, date), this.region), 's3'), 'aws4_request');
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    return {
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      Authorization:
+        `AWS4-HMAC-SHA256 Credential=${this.accessKeyId}/${scope}, ` +
+        `SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    };
+  }
+}
+
+function sha256(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * An S3-compatible bucket when BLOB_STORE_S3_BUCKET is set (with
+ * BLOB_STORE_S3_ENDPOINT, BLOB_STORE_S3_REGION, BLOB_STORE_S3_PREFIX and
+ * the BLOB_STORE_S3_ACCESS_KEY_ID / BLOB_STORE_S3_SECRET_ACCESS_KEY pair),
+ * else files under BLOB_STORE_DIR. Without BLOB_STORE_DIR, files under
+ * ./data/images only when JOB_STORE_PATH keeps the jobs too: jobs in
+ * memory are forgotten on restart, and nothing would delete their files.
+ */
+export function createBlobStoreFromEnv(): BlobStore {
+  const bucket = process.env.BLOB_STORE_S3_BUCKET;
+  if (bucket) {
+    return new S3BlobStore({
+      endpoint: process.env.BLOB_STORE_S3_ENDPOINT ?? 'https://s3.amazonaws.com',
+      bucket,
+      region: process.env.BLOB_STORE_S3_REGION,
+      accessKeyId: process.env.BLOB_STORE_S3_ACCESS_KEY_ID ?? '',
+      secretAccessKey: process.env.BLOB_STORE_S3_SECRET_ACCESS_KEY ?? '',
+      prefix: process.env.BLOB_STORE_S3_PREFIX,
+    });
+  }
+  if (process.env.BLOB_STORE_DIR) {
+    return new LocalBlobStore(process.env.BLOB_STORE_DIR);
+  }
+  return process.env.JOB_STORE_PATH ? new LocalBlobStore(join('data', 'images')) : new MemoryBlobStore();
+}
+
+let blobStore: BlobStore | undefined;
+
+export function getBlobStore(): BlobStore {
+  blobStore ??= createBlobStoreFromEnv();
+  return blobStore;
+}
+
+// Swap in another store, e.g. a MemoryBlobStore in tests or a custom backend
+export function setBlobStore(store: BlobStore): void {
+  blobStore = store;
+}
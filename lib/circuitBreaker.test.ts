@@ -0,0 +1,92 @@
+// lib/circuitBreaker.test.ts
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { CircuitBreaker } from './circuitBreaker';
+import { InvalidArgumentError, ProviderUnavailableError, RateLimitedError } from './errors';
+
+const succeed = async () => 'ok';
+const fail = async () => {
+  throw new ProviderUnavailableError('503');
+};
+
+describe('CircuitBreaker', () => {
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    now = 0;
+    breaker = new CircuitBreaker('gemini', {
+      failureRate: 0.5,
+      minimumRequests: 4,
+      windowMs: 60_000,
+      openMs: 10_000,
+      now: () => now,
+    });
+  });
+
+  async function settle(fn: () => Promise<string>) {
+    await breaker.run(fn).catch(() => undefined);
+  }
+
+  it('opens once the failure rate passes the threshold', async () => {
+    await settle(succeed);
+    await settle(fail);
+    await settle(succeed);
+    expect(breaker.state).toBe('closed');
+
+    await settle(fail);
+    expect(breaker.state).toBe('open');
+    await expect(breaker.run(succeed)).rejects.toMatchObject({
+      code: 'provider_unavailable',
+      retryAfterMs: 10_000,
+    });
+  });
+
+  it('waits for enough requests before judging the rate', async () => {
+    await settle(fail);
+    await settle(fail);
+    await settle(fail);
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('does not count refusals as outages', async () => {
+    for (let i = 0; i < 4; i++) {
+      await settle(async () => {
+        throw new InvalidArgumentError('bad prompt');
+      });
+    }
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('leaves rate limits to the key pool and concurrency limiter', async () => {
+    for (let i = 0; i < 4; i++) {
+      await settle(async () => {
+        throw new RateLimitedError('429');
+      });
+    }
+    await settle(fail);
+    expect(breaker.state).toBe('closed');
+    expect(breaker.snapshot()).toMatchObject({ requests: 1, failures: 1 });
+  });
+
+  it('lets one probe through when half-open', async () => {
+    for (let i = 0; i < 4; i++) await settle(fail);
+    now += 10_000;
+    expect(breaker.state).toBe('half-open');
+
+    let release!: () => void;
+    const probe = breaker.run(() => new Promise<string>((resolve) => (release = () => resolve('ok'))));
+    expect(() => breaker.assertAvailable()).toThrow('paused');
+
+    release();
+    await expect(probe).resolves.toBe('ok');
+    expect(breaker.snapshot()).toMatchObject({ state: 'closed', requests: 0, failures: 0 });
+  });
+
+  it('opens again when the probe fails', async () => {
+    for (let i = 0; i < 4; i++) await settle(fail);
+    now += 10_000;
+
+    await settle(fail);
+    expect(breaker.snapshot()).toMatchObject({ state: 'open', retryAt: 20_000 });
+  });
+});
@@ -0,0 +1,174 @@
+// lib/circuitBreaker.ts
+import { ProviderUnavailableError, classifyError } from './errors';
+import { serverState } from './serverState';
+import { CircuitState, CircuitStatus, ErrorCode } from './types';
+
+export interface CircuitBreakerOptions {
+  failureRate?: number; // share of failed requests in the window that opens the circuit
+  minimumRequests?: number; // requests in the window before the rate counts
+  windowMs?: number;
+  openMs?: number; // how long to fail fast before probing again
+  now?: () => number;
+}
+
+interface Outcome {
+  at: number;
+  failed: boolean;
+}
+
+// Errors that say the backend itself is struggling. Refusals and bad
+// requests mean it answered, so they count as successes here.
+const OUTAGE_CODES: ErrorCode[] = ['provider_unavailable', 'timeout'];
+
+// Errors that say nothing about the backend's health. Rate limits are left
+// to the key pool and the adaptive concurrency limiter.
+const IGNORED_CODES: ErrorCode[] = ['cancelled', 'rate_limited'];
+
+/**
+ * Stops sending requests to a backend that keeps failing. Once the failure
+ * rate over the window passes the threshold the circuit opens and requests
+ * fail fast; after `openMs` a single probe goes through, closing the circuit
+ * on success and opening it again on failure.
+ */
+export class CircuitBreaker {
+  readonly name: string;
+  private failureRate: number;
+  private minimumRequests: number;
+  private windowMs: number;
+  private openMs: number;
+  private now: () => number;
+  private outcomes: Outcome[] = [];
+  private openedAt?: number;
+  private probing = false;
+
+  constructor(name: string, options: CircuitBreakerOptions = {}) {
+    this.name = name;
+    this.failureRate = options.failureRate ?? 0.5;
+    this.minimumRequests = options.minimumRequests ?? 5;
+    this.windowMs = options.windowMs ?? 60 * 1000;
+    this.openMs = options.openMs ?? 30 * 1000;
+    this.now = options.now ?? Date.now;
+  }
+
+  get state(): CircuitState {
+    if (this.openedAt === undefined) return 'closed';
+    return this.now() < this.openedAt + this.openMs ? 'open' : 'half-open';
+  }
+
+  /**
+   * Throws ProviderUnavailableError when a new request would be refused:
+   * the circuit is open, or half-open with its probe still in flight.
+   */
+  assertAvailable(): void {
+    const state = this.state;
+    if (state === 'open' || (state === 'half-open' && this.probing)) {
+      throw this.unavailableError();
+    }
+  }
+
+  // Runs `fn` unless the circuit refuses it, and records how it went
+  async run<T>(fn: () => Promise<T>): Promise<T> {
+    this.assertAvailable();
+    const probe = this.state === 'half-open';
+    if (probe) {
+      this.probing = true;
+    }
+
+    try {
+      const result = await fn();
+      this.record(false, probe);
+      return result;
+    } catch (error) {
+      const { code } = classifyError(error);
+      if (IGNORED_CODES.includes(code)) {
+        // Let another request probe
+        if (probe) this.probing = false;
+      } else {
+        this.record(OUTAGE_CODES.includes(code), probe);
+      }
+      throw error;
+    }
+  }
+
+  snapshot(): CircuitStatus {
+    const now = this.now();
+    this.prune(now);
+    const failures = this.outcomes.filter((outcome) => outcome.failed).length;
+
+    return {
+      provider: this.name,
+      state: this.state,
+      requests: this.outcomes.length,
+      failures,
+      retryAt: this.openedAt !== undefined ? this.openedAt + this.openMs : undefined,
+    };
+  }
+
+  private record(failed: boolean, probe: boolean): void {
+    const now = this.now();
+
+    if (probe) {
+      this.probing = false;
+      if (failed) {
+        this.openedAt = now;
+      } else {
+        this.openedAt = undefined;
+        this.outcomes = [];
+      }
+      return;
+    }
+
+    this.outcomes.push({ at: now, failed });
+    this.prune(now);
+
+    const failures = this.outcomes.filter((outcome) => outcome.failed).length;
+    if (
+      this.openedAt === undefined &&
+      this.outcomes.length >= this.minimumRequests &&
+      failures / this.outcomes.length >= this.failureRate
+    ) {
+      this.openedAt = now;
+    }
+  }
+
+  private prune(now: number): void {
+    this.outcomes = this.outcomes.filter((outcome) => outcome.at > now - this.windowMs);
+  }
+
+  private unavailableError(): ProviderUnavailableError {
+    const retryAfterMs = Math.max(0, (this.openedAt ?? this.now()) + this.openMs - this.now());
+    return new ProviderUnavailableError(
+      `${this.name} is failing repeatedly; new requests are paused for ${Math.ceil(retryAfterMs / 1000)}s`,
+      { retryAfterMs }
+    );
+  }
+}
+
+const breakers = serverState('circuitBreakers', () => new Map<string, CircuitBreaker>());
+
+/**
+ * The breaker for a provider, shared by every batch. CIRCUIT_FAILURE_RATE,
+ * CIRCUIT_MIN_REQUESTS, CIRCUIT_WINDOW_MS and CIRCUIT_OPEN_MS tune them.
+ */
+export function getCircuitBreaker(provider: string): CircuitBreaker {
+  let breaker = breakers.get(provider);
+  if (!breaker) {
+    breaker = new CircuitBreaker(provider, {
+      failureRate: envNumber('CIRCUIT_FAILURE_RATE'),
+      minimumRequests: envNumber('CIRCUIT_MIN_REQUESTS'),
+      windowMs: envNumber('CIRCUIT_WINDOW_MS'),
+      openMs: envNumber('CIRCUIT_OPEN_MS'),
+    });
+    breakers.set(provider, breaker);
+  }
+  return breaker;
+}
+
+export function listCircuitBreakers(): CircuitBreaker[] {
+  return [...breakers.values()];
+}
+
+function envNumber(name: string): number | undefined {
+  const value = Number(process.env[name]);
+  return process.env[name] && value >= 0 ? value : undefined;
+}
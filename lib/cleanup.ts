@@ -1,12 +1,49 @@
 // lib/cleanup.ts
+import { deleteImage } from './imageStore';
 import { jobManager } from './jobManager';
+import { sessionManager } from './sessionManager';
+import { Job, Session } from './types';
 
 const CLEANUP_INTERVAL = 15 * 60 * 1000; // 15 minutes
 const JOB_LIFETIME = 60 * 60 * 1000; // 1 hour
 
+let cleanupStarted = false;
+
+// Safe to call from every route module; only the first call starts the timer
 export function startCleanupTask() {
-  setInterval(() => {
+  if (cleanupStarted) return;
+  cleanupStarted = true;
+
+  setInterval(async () => {
     console.log('Running job cleanup...');
-    jobManager.cleanup(JOB_LIFETIME);
+    const jobs = jobManager.cleanup(JOB_LIFETIME);
+    const sessions = sessionManager.cleanup(JOB_LIFETIME);
+    await deleteUnusedImages(jobs, sessions);
   }, CLEANUP_INTERVAL);
 }
+
+// A turn shares its job's image and can outlive the job, so an image goes
+// only once neither a job nor a session still refers to it
+async function deleteUnusedImages(jobs: Job[], sessions: Session[]) {
+  const imageUrls = new Set([
+    ...jobs.map((job) => job.imageUrl),
+    ...sessions.flatMap((session) => session.turns.map((turn) => turn.imageUrl)),
+  ]);
+  for (const job of jobManager.listJobs()) {
+    imageUrls.delete(job.imageUrl);
+  }
+  for (const session of sessionManager.listSessions()) {
+    for (const turn of session.turns) {
+      imageUrls.delete(turn.imageUrl);
+    }
+  }
+
+  for (const imageUrl of imageUrls) {
+    if (!imageUrl) continue;
+    try {
+      await deleteImage(imageUrl);
+    } catch (error) {
+      console.error(`Failed to delete image ${imageUrl}:`, error);
+    }
+  }
+}
@@ -0,0 +1,59 @@
+// lib/errors.test.ts
+import { describe, it, expect } from '@jest/globals';
+import { ApiError } from '@google/genai';
+import {
+  GenerationError,
+  SafetyBlockedError,
+  classifyError,
+  getServerRetryDelayMs,
+} from './errors';
+
+function upstreamError(status: number, code: string, message: string): ApiError {
+  return new ApiError({
+    status,
+    message: `got status: ${status}. ${JSON.stringify({ error: { code: status, message, status: code } })}`,
+  });
+}
+
+describe('classifyError', () => {
+  it('maps HTTP and RPC statuses onto error codes', () => {
+    expect(classifyError(upstreamError(429, 'RESOURCE_EXHAUSTED', 'quota')).code).toBe('rate_limited');
+    expect(classifyError(upstreamError(400, 'INVALID_ARGUMENT', 'bad')).code).toBe('invalid_argument');
+    expect(classifyError(upstreamError(401, 'UNAUTHENTICATED', 'key')).code).toBe('auth_failed');
+    expect(classifyError(upstreamError(503, 'UNAVAILABLE', 'down')).code).toBe('provider_unavailable');
+    expect(classifyError(upstreamError(504, 'DEADLINE_EXCEEDED', 'slow')).code).toBe('timeout');
+  });
+
+  it('uses the upstream message instead of the raw body', () => {
+    expect(classifyError(upstreamError(400, 'INVALID_ARGUMENT', 'bad aspect ratio')).message).toBe(
+      'bad aspect ratio'
+    );
+  });
+
+  it('marks only transient failures as retryable', () => {
+    expect(classifyError(upstreamError(429, 'RESOURCE_EXHAUSTED', 'quota')).retryable).toBe(true);
+    expect(classifyError(upstreamError(503, 'UNAVAILABLE', 'down')).retryable).toBe(true);
+    expect(classifyError(upstreamError(400, 'INVALID_ARGUMENT', 'bad')).retryable).toBe(false);
+    expect(classifyError(new Error('something odd')).retryable).toBe(false);
+  });
+
+  it('passes classified errors through unchanged', () => {
+    const error = new SafetyBlockedError('blocked');
+    expect(classifyError(error)).toBe(error);
+    expect(error).toBeInstanceOf(GenerationError);
+    expect(error.toJobError()).toEqual({
+      code: 'safety_blocked',
+      message: 'blocked',
+      retryable: false,
+    });
+  });
+
+  it('reads the server-provided retry delay', () => {
+    expect(getServerRetryDelayMs('{"retryDelay": "12s"}')).toBe(12000);
+    expect(getServerRetryDelayMs('Please retry in 3.5s.')).toBe(3500);
+    expect(getServerRetryDelayMs('quota')).toBeUndefined();
+
+    const error = new ApiError({ status: 429, message: 'quota, "retryDelay": "7s"' });
+    expect(classifyError(error).retryAfterMs).toBe(7000);
+  });
+});
@@ -0,0 +1,186 @@
+// lib/errors.ts
+import { ErrorCode, JobError, SafetyFeedback } from './types';
+
+/**
+ * Base class for failures raised while generating an image. The `code` is
+ * what reaches the UI; `retryable` drives the retry policy.
+ */
+export class GenerationError extends Error {
+  readonly code: ErrorCode;
+  readonly retryable: boolean;
+  readonly retryAfterMs?: number;
+  readonly safety?: SafetyFeedback;
+  readonly modelText?: string; // what the model said instead of returning an image
+
+  constructor(
+    code: ErrorCode,
+    message: string,
+    options: {
+      retryable?: boolean;
+      retryAfterMs?: number;
+      safety?: SafetyFeedback;
+      modelText?: string;
+      cause?: unknown;
+    } = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = 'GenerationError';
+    this.code = code;
+    this.retryable = options.retryable ?? false;
+    this.retryAfterMs = options.retryAfterMs;
+    this.safety = options.safety;
+    this.modelText = options.modelText;
+  }
+
+  toJobError(): JobError {
+    return {
+      code: this.code,
+      message: this.message,
+      retryable: this.retryable,
+    };
+  }
+}
+
+export class RateLimitedError extends GenerationError {
+  constructor(message: string, options: { retryAfterMs?: number; cause?: unknown } = {}) {
+    super('rate_limited', message, { ...options, retryable: true });
+    this.name = 'RateLimitedError';
+  }
+}
+
+export class SafetyBlockedError extends GenerationError {
+  constructor(
+    message: string,
+    options: { safety?: SafetyFeedback; modelText?: string; cause?: unknown } = {}
+  ) {
+    super('safety_blocked', message, options);
+    this.name = 'SafetyBlockedError';
+  }
+}
+
+export class InvalidArgumentError extends GenerationError {
+  constructor(message: string, options: { cause?: unknown } = {}) {
+    super('invalid_argument', message, options);
+    this.name = 'InvalidArgumentError';
+  }
+}
+
+export class NoImageReturnedError extends GenerationError {
+  constructor(
+    message: string,
+    options: { safety?: SafetyFeedback; modelText?: string; cause?: unknown } = {}
+  ) {
+    super('no_image_returned', message, options);
+    this.name = 'NoImageReturnedError';
+  }
+}
+
+export class AuthFailedError extends GenerationError {
+  constructor(message: string, options: { cause?: unknown } = {}) {
+    super('auth_failed', message, options);
+    this.name = 'AuthFailedError';
+  }
+}
+
+export class GenerationTimeoutError extends GenerationError {
+  constructor(message: string, options: { cause?: unknown } = {}) {
+    // A hung upstream call tends to hang again, so a timeout ends the job
+    // rather than holding it for another full timeout per retry and fallback
+    super('timeout', message, options);
+    this.name = 'GenerationTimeoutError';
+  }
+}
+
+export class GenerationCancelledError extends GenerationError {
+  constructor(message: string, options: { cause?: unknown } = {}) {
+    super('cancelled', message, options);
+    this.name = 'GenerationCancelledError';
+  }
+}
+
+export class ProviderUnavailableError extends GenerationError {
+  constructor(message: string, options: { retryAfterMs?: number; cause?: unknown } = {}) {
+    super('provider_unavailable', message, { ...options, retryable: true });
+    this.name = 'ProviderUnavailableError';
+  }
+}
+
+/**
+ * A non-2xx response from an HTTP backend we call with fetch. It carries the
+ * status the same way SDK errors do, so classifyError treats both alike.
+ */
+export class UpstreamHttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'UpstreamHttpError';
+    this.status = status;
+  }
+}
+
+/**
+ * Reads the delay the server asked for, from either a RetryInfo detail
+ * (`"retryDelay": "12s"`) or the "Please retry in 12.3s" message hint.
+ */
+export function getServerRetryDelayMs(message: string): number | undefined {
+  const match =
+    message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/) ||
+    message.match(/retry in (\d+(?:\.\d+)?)\s*s/i);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+}
+
+// SDK errors embed the upstream JSON body in the message, e.g.
+// `got status: 429 Too Many Requests. {"error":{"code":429,...}}`
+function parseUpstreamError(message: string): { message?: string; status?: string } {
+  const start = message.indexOf('{');
+  if (start === -1) return {};
+  try {
+    const body = JSON.parse(message.slice(start));
+    return {
+      message: body?.error?.message,
+      status: body?.error?.status,
+    };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Maps anything thrown by a provider or SDK onto a GenerationError.
+ * Errors that are already classified pass through unchanged.
+ */
+export function classifyError(error: unknown): GenerationError {
+  if (error instanceof GenerationError) {
+    return error;
+  }
+
+  const raw = error instanceof Error ? error.message : String(error);
+  const httpStatus = (error as { status?: unknown })?.status;
+  const upstream = parseUpstreamError(raw);
+  const message = upstream.message || raw;
+  const status = upstream.status || '';
+  const options = { cause: error };
+
+  if (httpStatus === 429 || status === 'RESOURCE_EXHAUSTED' || /RESOURCE_EXHAUSTED/.test(raw)) {
+    return new RateLimitedError(message, { ...options, retryAfterMs: getServerRetryDelayMs(raw) });
+  }
+  if (httpStatus === 401 || httpStatus === 403 || status === 'UNAUTHENTICATED' || status === 'PERMISSION_DENIED') {
+    return new AuthFailedError(message, options);
+  }
+  if (httpStatus === 400 || status === 'INVALID_ARGUMENT') {
+    return new InvalidArgumentError(message, options);
+  }
+  if (httpStatus === 504 || status === 'DEADLINE_EXCEEDED' || /ETIMEDOUT|timed? ?out/i.test(raw)) {
+    return new GenerationTimeoutError(message, options);
+  }
+  if (
+    (typeof httpStatus === 'number' && httpStatus >= 500) ||
+    status === 'UNAVAILABLE' ||
+    /ECONNRESET|ECONNREFUSED|fetch failed/i.test(raw)
+  ) {
+    return new ProviderUnavailableError(message, { ...options, retryAfterMs: getServerRetryDelayMs(raw) });
+  }
+
+  return new GenerationError('provider_unavailable', message, options);
+}
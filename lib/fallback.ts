@@ -0,0 +1,54 @@
+// lib/fallback.ts
+import { getModel } from './models';
+import { getProvider, hasProvider } from './provider';
+import { GenerationMode, ModelInfo } from './types';
+
+// What a fallback model has to support to take over a job
+export interface FallbackRequirements {
+  inputImages: number;
+  mode?: GenerationMode; // how the input images are used
+  conversation?: boolean;
+  aspectRatio?: string;
+}
+
+/**
+ * Model ids to try, in order, when a job's model keeps failing with
+ * retryable errors, from the comma-separated FALLBACK_CHAIN, e.g.
+ * `gemini-2.5-flash-image,imagen-4.0-fast-generate-001,stable-diffusion`.
+ */
+export function getFallbackChain(): string[] {
+  return (process.env.FALLBACK_CHAIN ?? '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+}
+
+/**
+ * The models a job moves on to after its own model fails: those after it in
+ * the chain (or the whole chain when its model isn't listed) that are
+ * available here and can handle the job.
+ */
+export function getFallbackModels(modelId: string | undefined, needs: FallbackRequirements): ModelInfo[] {
+  const chain = getFallbackChain();
+  const position = modelId ? chain.indexOf(modelId) : -1;
+
+  return chain
+    .slice(position + 1)
+    .map((id) => getModel(id))
+    .filter((model): model is ModelInfo => model !== undefined && model.id !== modelId)
+    .filter((model) => supports(model, needs));
+}
+
+function supports(model: ModelInfo, needs: FallbackRequirements): boolean {
+  if (!hasProvider(model.provider) || model.maxInputImages < needs.inputImages) return false;
+  if (needs.aspectRatio && !model.aspectRatios.includes(needs.aspectRatio)) return false;
+
+  try {
+    const provider = getProvider(model.provider);
+    if (needs.conversation && !provider.converse) return false;
+    return !needs.mode || provider.capabilities[needs.mode];
+  } catch {
+    // Not configured here, e.g. a missing API key
+    return false;
+  }
+}
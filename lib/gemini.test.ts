@@ -2,11 +2,24 @@
 import { describe, it, expect, beforeEach, jest } from '@jest/globals';
 import { GeminiClient } from './gemini';
 
+const mockGenerateContent = jest.fn<(params: unknown) => Promise<unknown>>();
+
+jest.mock('@google/genai', () => {
+  const actual = jest.requireActual<typeof import('@google/genai')>('@google/genai');
+  return {
+    ...actual,
+    GoogleGenAI: jest.fn().mockImplementation(() => ({
+      models: { generateContent: mockGenerateContent },
+    })),
+  };
+});
+
 describe('GeminiClient', () => {
   let client: GeminiClient;
 
   beforeEach(() => {
     process.env.GEMINI_API_KEY = 'test-key';
+    mockGenerateContent.mockReset();
     client = new GeminiClient();
   });
 
@@ -15,6 +28,206 @@ describe('GeminiClient', () => {
     expect(() => new GeminiClient()).toThrow('GEMINI_API_KEY');
   });
 
-  // Note: Real API tests would use mocks
-  // This is just structure validation
+  it('returns the generated image as a data URL', async () => {
+    mockGenerateContent.mockResolvedValue({
+      candidates: [{
+        finishReason: 'STOP',
+        content: { parts: [{ inlineData: { mimeType: 'image/png', data: 'abc' } }] },
+      }],
+    });
+
+    await expect(client.generate('a red fox')).resolves.toEqual({
+      imageUrl: 'data:image/png;base64,abc',
+      text: undefined,
+    });
+  });
+
+  it('reports token usage, counting thinking tokens as output', async () => {
+    mockGenerateContent.mockResolvedValue({
+      candidates: [{
+        content: { parts: [{ inlineData: { mimeType: 'image/png', data: 'abc' } }] },
+      }],
+      usageMetadata: { promptTokenCount: 12, candidatesTokenCount: 1290, thoughtsTokenCount: 30 },
+    });
+
+    const result = await client.generate('a red fox');
+
+    expect(result.usage).toEqual({ promptTokens: 12, outputTokens: 1320 });
+  });
+
+  it('requests and returns text commentary when asked', async () => {
+    mockGenerateContent.mockResolvedValue({
+      candidates: [{
+        content: {
+          parts: [
+            { text: 'I added a red hat.' },
+            { inlineData: { mimeType: 'image/png', data: 'abc' } },
+          ],
+        },
+      }],
+    });
+
+    const result = await client.generate('a fox in a hat', { includeText: true });
+
+    expect(result.text).toBe('I added a red hat.');
+    expect(mockGenerateContent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        config: expect.objectContaining({ responseModalities: ['Text', 'Image'] }),
+      })
+    );
+  });
+
+  it('passes sampling parameters through to the generation config', async () => {
+    mockGenerateContent.mockResolvedValue({
+      candidates: [{
+        content: { parts: [{ inlineData: { mimeType: 'image/png', data: 'abc' } }] },
+      }],
+    });
+
+    await client.generate('a red fox', { temperature: 0.4, seed: 42, topP: 0.9, topK: 20 });
+
+    expect(mockGenerateContent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        config: expect.objectContaining({ temperature: 0.4, seed: 42, topP: 0.9, topK: 20 }),
+      })
+    );
+  });
+
+  it('sends the image first with edit instructions in edit mode', async () => {
+    mockGenerateContent.mockResolvedValue({
+      candidates: [{
+        content: { parts: [{ inlineData: { mimeType: 'image/png', data: 'abc' } }] },
+      }],
+    });
+
+    await client.edit('add a hat', [{ mimeType: 'image/jpeg', data: 'xyz' }], { mode: 'edit' });
+
+    const params = mockGenerateContent.mock.calls[0][0] as {
+      contents: [{ parts: Array<{ text?: string; inlineData?: { mimeType: string; data: string } }> }];
+      config: { systemInstruction: string };
+    };
+    const [first, second] = params.contents[0].parts;
+    expect(first.inlineData).toEqual({ mimeType: 'image/jpeg', data: 'xyz' });
+    expect(second.text).toBe('Edit this image: add a hat');
+    expect(params.config.systemInstruction).toContain('Preserve the original composition');
+  });
+
+  it('sends the prompt first with style instructions in reference mode', async () => {
+    mockGenerateContent.mockResolvedValue({
+      candidates: [{
+        content: { parts: [{ inlineData: { mimeType: 'image/png', data: 'abc' } }] },
+      }],
+    });
+
+    await client.edit('a castle', [{ mimeType: 'image/webp', data: 'xyz' }], { mode: 'reference' });
+
+    const params = mockGenerateContent.mock.calls[0][0] as {
+      contents: [{ parts: Array<{ text?: string; inlineData?: { mimeType: string; data: string } }> }];
+      config: { systemInstruction: string };
+    };
+    const [first, second] = params.contents[0].parts;
+    expect(first.text).toContain('a castle');
+    expect(first.text).toContain('style reference');
+    expect(second.inlineData).toEqual({ mimeType: 'image/webp', data: 'xyz' });
+    expect(params.config.systemInstruction).toContain('new, original composition');
+  });
+
+  it('sends every image in order in compose mode', async () => {
+    mockGenerateContent.mockResolvedValue({
+      candidates: [{
+        content: { parts: [{ inlineData: { mimeType: 'image/png', data: 'abc' } }] },
+      }],
+    });
+
+    await client.edit(
+      'on a beach',
+      [
+        { mimeType: 'image/png', data: 'dog' },
+        { mimeType: 'image/jpeg', data: 'cat' },
+      ],
+      { mode: 'compose' }
+    );
+
+    const params = mockGenerateContent.mock.calls[0][0] as {
+      contents: [{ parts: Array<{ text?: string; inlineData?: { mimeType: string; data: string } }> }];
+    };
+    expect(params.contents[0].parts.map((part) => part.inlineData?.data ?? part.text)).toEqual([
+      'dog',
+      'cat',
+      'Combine the subjects of the attached images into a single scene: on a beach',
+    ]);
+  });
+
+  it('sends conversation history as alternating roles', async () => {
+    mockGenerateContent.mockResolvedValue({
+      candidates: [{
+        content: { parts: [{ inlineData: { mimeType: 'image/png', data: 'next' } }] },
+      }],
+    });
+
+    await client.converse([
+      { role: 'user', text: 'a red fox', images: [] },
+      { role: 'model', images: [{ mimeType: 'image/png', data: 'first' }] },
+      { role: 'user', text: 'make it night', images: [] },
+    ]);
+
+    const { contents } = mockGenerateContent.mock.calls[0][0] as { contents: unknown };
+    expect(contents).toEqual([
+      { role: 'user', parts: [{ text: 'a red fox' }] },
+      { role: 'model', parts: [{ inlineData: { mimeType: 'image/png', data: 'first' } }] },
+      { role: 'user', parts: [{ text: 'make it night' }] },
+    ]);
+  });
+
+  it('reports blocked prompts with their block reason', async () => {
+    mockGenerateContent.mockResolvedValue({
+      promptFeedback: {
+        blockReason: 'SAFETY',
+        safetyRatings: [
+          { category: 'HARM_CATEGORY_HARASSMENT', probability: 'HIGH', blocked: true },
+        ],
+      },
+    });
+
+    await expect(client.generate('something rude')).rejects.toMatchObject({
+      code: 'safety_blocked',
+      message: 'Prompt blocked (SAFETY): HARM_CATEGORY_HARASSMENT rated HIGH',
+      safety: {
+        blockReason: 'SAFETY',
+        ratings: [{ category: 'HARM_CATEGORY_HARASSMENT', probability: 'HIGH', blocked: true }],
+      },
+    });
+  });
+
+  it('reports images withheld by a safety finish reason', async () => {
+    mockGenerateContent.mockResolvedValue({
+      candidates: [{
+        finishReason: 'IMAGE_SAFETY',
+        safetyRatings: [
+          { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', probability: 'MEDIUM', blocked: true },
+        ],
+        content: { parts: [] },
+      }],
+    });
+
+    await expect(client.generate('a red fox')).rejects.toMatchObject({
+      code: 'safety_blocked',
+      safety: { finishReason: 'IMAGE_SAFETY' },
+    });
+  });
+
+  it('keeps the finish reason when no image is returned', async () => {
+    mockGenerateContent.mockResolvedValue({
+      candidates: [{
+        finishReason: 'STOP',
+        content: { parts: [{ text: 'I cannot draw that.' }] },
+      }],
+    });
+
+    await expect(client.generate('a red fox')).rejects.toMatchObject({
+      code: 'no_image_returned',
+      safety: { finishReason: 'STOP', ratings: [] },
+      modelText: 'I cannot draw that.',
+    });
+  });
 });
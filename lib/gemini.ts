@@ -1,101 +1,245 @@
 // lib/gemini.ts
-import { GoogleGenAI } from '@google/genai';
-import { GenerationMode } from './types';
+import { Content, GenerateContentResponse, GoogleGenAI, Part } from '@google/genai';
+import { ASPECT_RATIOS, DEFAULT_ASPECT_RATIO } from './aspectRatios';
+import { NoImageReturnedError, SafetyBlockedError, classifyError } from './errors';
+import { InputImage } from './imageData';
+import { GEMINI_KEY_POOL_GROUP, KeyPool, getGeminiKeyPool } from './keyPool';
+import { getModeTemplate, renderInstruction } from './modeTemplates';
+import {
+  ConversationMessage,
+  GenerateImageOptions,
+  GeneratedImage,
+  ImageProvider,
+  ProviderCapabilities,
+  ProviderLimits,
+} from './provider';
+import { KeyPoolResponse, QuotaStatus, SafetyFeedback, TokenUsage } from './types';
 
-export class GeminiClient {
-  private client: GoogleGenAI;
+const CONVERSATION_SYSTEM_INSTRUCTION =
+  'You are iteratively refining images with the user. Apply each new request to the most ' +
+  'recent image unless told otherwise, and keep everything the user did not ask to change.';
+
+// Finish reasons that mean the output was withheld by a content filter
+const BLOCKED_FINISH_REASONS = [
+  'SAFETY',
+  'IMAGE_SAFETY',
+  'PROHIBITED_CONTENT',
+  'IMAGE_PROHIBITED_CONTENT',
+  'BLOCKLIST',
+  'SPII',
+  'RECITATION',
+];
+
+export class GeminiClient implements ImageProvider {
+  readonly name = 'gemini';
+  readonly capabilities: ProviderCapabilities = {
+    edit: true,
+    reference: true,
+    compose: true,
+    conversation: true,
+    aspectRatios: ASPECT_RATIOS,
+  };
+  readonly limits: ProviderLimits = {
+    maxPromptLength: 10000,
+    maxInputImages: 3,
+  };
+  readonly rateLimitGroup = GEMINI_KEY_POOL_GROUP;
+
+  private keys: KeyPool;
+  private clients = new Map<string, GoogleGenAI>();
   private model: string = 'gemini-2.5-flash-image';
 
-  constructor() {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
+  constructor(keys: KeyPool = getGeminiKeyPool()) {
+    if (keys.size === 0) {
       throw new Error('GEMINI_API_KEY environment variable is required');
     }
-    this.client = new GoogleGenAI({
-      apiKey,
-    });
+    this.keys = keys;
   }
 
-  async generateImage(
-    prompt: string,
-    options: {
-      temperature?: number;
-      image?: string; // base64
-      mode?: GenerationMode;
-      aspectRatio?: string;
-    } = {}
-  ): Promise<string> {
-    const { temperature = 1.0, image, mode, aspectRatio = '1:1' } = options;
+  // Shared with every other client on the Gemini key pool
+  quota(): QuotaStatus {
+    return this.keys.quota();
+  }
 
-    try {
-      // Build the parts array for the request
-      const parts: Array<{ text: string } | { inline_data: { mimeType: string; data: string } }> = [];
-
-      // If image provided, include it in the request
-      if (image) {
-        // Remove data URL prefix if present
-        const base64Data = image.includes(',') ? image.split(',')[1] : image;
-
-        parts.push({
-          inline_data: {
-            mimeType: 'image/png',
-            data: base64Data,
-          },
-        });
-      }
+  keyPool(): KeyPoolResponse {
+    return this.keys.snapshot();
+  }
+
+  private clientFor(apiKey: string): GoogleGenAI {
+    let client = this.clients.get(apiKey);
+    if (!client) {
+      client = new GoogleGenAI({ apiKey });
+      this.clients.set(apiKey, client);
+    }
+    return client;
+  }
+
+  async generate(prompt: string, options: GenerateImageOptions = {}): Promise<GeneratedImage> {
+    return this.request([{ text: prompt }], options);
+  }
+
+  async edit(prompt: string, images: InputImage[], options: GenerateImageOptions = {}): Promise<GeneratedImage> {
+    const template = getModeTemplate(options.mode ?? 'edit');
+
+    const imageParts: Part[] = images.map((image) => ({
+      inlineData: {
+        mimeType: image.mimeType,
+        data: image.data,
+      },
+    }));
+    const textPart: Part = { text: renderInstruction(template, prompt) };
+
+    return this.request(
+      template.imageFirst ? [...imageParts, textPart] : [textPart, ...imageParts],
+      options,
+      template.systemInstruction
+    );
+  }
+
+  async converse(
+    messages: ConversationMessage[],
+    options: GenerateImageOptions = {}
+  ): Promise<GeneratedImage> {
+    const contents: Content[] = messages.map((message) => ({
+      role: message.role,
+      parts: [
+        ...message.images.map((image) => ({
+          inlineData: { mimeType: image.mimeType, data: image.data },
+        })),
+        ...(message.text ? [{ text: message.text }] : []),
+      ],
+    }));
 
-      // Add the text prompt
-      parts.push({ text: prompt });
-
-      // Make the API request using the SDK
-      const response = await this.client.models.generateContent({
-        model: this.model,
-        contents: [{
-          parts,
-        }],
-        generationConfig: {
-          responseModalities: ['Image'],
+    return this.request(contents, options, CONVERSATION_SYSTEM_INSTRUCTION);
+  }
+
+  private async request(
+    contents: Part[] | Content[],
+    options: GenerateImageOptions,
+    systemInstruction?: string
+  ): Promise<GeneratedImage> {
+    const {
+      temperature,
+      seed,
+      topP,
+      topK,
+      aspectRatio = DEFAULT_ASPECT_RATIO,
+      includeText = false,
+      model = this.model,
+      signal,
+    } = options;
+
+    try {
+      // Make the API request using the SDK, with the next key from the pool
+      const response = await this.keys.run((apiKey) => this.clientFor(apiKey).models.generateContent({
+        model,
+        contents: isContentList(contents) ? contents : [{ parts: contents }],
+        config: {
+          abortSignal: signal,
+          systemInstruction,
+          temperature,
+          seed,
+          topP,
+          topK,
+          responseModalities: includeText ? ['Text', 'Image'] : ['Image'],
           imageConfig: {
             aspectRatio,
           },
         },
-      });
+      }));
+
+      const safety = extractSafetyFeedback(response);
+      if (safety.blockReason) {
+        throw new SafetyBlockedError(describeBlock(`Prompt blocked (${safety.blockReason})`, safety), {
+          safety,
+        });
+      }
 
       // Extract the generated image from response
-      // Response structure: candidates[0].content.parts[].inline_data
+      // Response structure: candidates[0].content.parts[].inlineData
       const candidate = response.candidates?.[0];
       if (!candidate) {
-        throw new Error('No candidate generated in response');
+        throw new NoImageReturnedError('No candidate generated in response', { safety });
+      }
+
+      // Any text parts are the model's commentary, including refusals
+      const text = candidate.content?.parts
+        ?.filter((part) => part.text && !part.thought)
+        .map((part) => part.text)
+        .join('\n')
+        .trim() || undefined;
+
+      if (safety.finishReason && BLOCKED_FINISH_REASONS.includes(safety.finishReason)) {
+        throw new SafetyBlockedError(describeBlock(`Image blocked (${safety.finishReason})`, safety), {
+          safety,
+          modelText: text,
+        });
       }
 
       const imagePart = candidate.content?.parts?.find(
-        (part: any) => part.inline_data
+        (part) => part.inlineData
       );
 
-      if (!imagePart || !imagePart.inline_data) {
-        throw new Error('No image data found in response');
+      if (!imagePart || !imagePart.inlineData) {
+        const reason = safety.finishReason ? ` (finishReason: ${safety.finishReason})` : '';
+        throw new NoImageReturnedError(`No image data found in response${reason}`, {
+          safety,
+          modelText: text,
+        });
       }
 
-      const base64Image = imagePart.inline_data.data;
-      const mimeType = imagePart.inline_data.mimeType || 'image/png';
+      const base64Image = imagePart.inlineData.data;
+      const mimeType = imagePart.inlineData.mimeType || 'image/png';
 
       // Return as data URL
-      return `data:${mimeType};base64,${base64Image}`;
+      return {
+        imageUrl: `data:${mimeType};base64,${base64Image}`,
+        text,
+        usage: extractUsage(response),
+      };
     } catch (error) {
-      if (error instanceof Error) {
-        throw new Error(`Gemini API error: ${error.message}`);
-      }
-      throw new Error(`Gemini API error: ${String(error)}`);
+      throw classifyError(error);
     }
   }
 }
 
-// Singleton instance - only create if API key is available
-let _geminiClient: GeminiClient | null = null;
+function extractUsage(response: GenerateContentResponse): TokenUsage | undefined {
+  const usage = response.usageMetadata;
+  if (!usage) return undefined;
+  return {
+    promptTokens: usage.promptTokenCount ?? 0,
+    outputTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0),
+  };
+}
+
+function extractSafetyFeedback(response: GenerateContentResponse): SafetyFeedback {
+  const candidate = response.candidates?.[0];
+  const ratings = [
+    ...(response.promptFeedback?.safetyRatings ?? []),
+    ...(candidate?.safetyRatings ?? []),
+  ];
 
-export function getGeminiClient(): GeminiClient {
-  if (!_geminiClient) {
-    _geminiClient = new GeminiClient();
+  return {
+    finishReason: candidate?.finishReason,
+    blockReason: response.promptFeedback?.blockReason,
+    ratings: ratings.map((rating) => ({
+      category: rating.category ?? 'HARM_CATEGORY_UNSPECIFIED',
+      probability: rating.probability ?? 'HARM_PROBABILITY_UNSPECIFIED',
+      blocked: rating.blocked ?? false,
+    })),
+  };
+}
+
+// e.g. "Image blocked (SAFETY): HARM_CATEGORY_HARASSMENT rated MEDIUM"
+function describeBlock(summary: string, safety: SafetyFeedback): string {
+  const blocked = safety.ratings.filter((rating) => rating.blocked);
+  if (blocked.length === 0) {
+    return summary;
   }
-  return _geminiClient;
+  const details = blocked.map((rating) => `${rating.category} rated ${rating.probability}`);
+  return `${summary}: ${details.join(', ')}`;
+}
+
+function isContentList(contents: Part[] | Content[]): contents is Content[] {
+  return contents.length > 0 && 'role' in contents[0];
 }
@@ -0,0 +1,62 @@
+// lib/imageData.test.ts
+import { describe, it, expect } from '@jest/globals';
+import { parseImageData, toDataUrl } from './imageData';
+
+// 1x1 red pixel PNG
+const PNG_BASE64 =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8DwHwAFBQIAX8jx0gAAAABJRU5ErkJggg==';
+
+const JPEG_BASE64 = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0xff, 0xd9]).toString('base64');
+
+const WEBP_BASE64 = (() => {
+  const bytes = Buffer.alloc(20);
+  bytes.write('RIFF', 0, 'ascii');
+  bytes.writeUInt32LE(12, 4);
+  bytes.write('WEBPVP8 ', 8, 'ascii');
+  return bytes.toString('base64');
+})();
+
+describe('parseImageData', () => {
+  it('detects the MIME type from magic bytes', () => {
+    expect(parseImageData(`data:image/png;base64,${PNG_BASE64}`).mimeType).toBe('image/png');
+    expect(parseImageData(`data:image/jpeg;base64,${JPEG_BASE64}`).mimeType).toBe('image/jpeg');
+    expect(parseImageData(`data:image/webp;base64,${WEBP_BASE64}`).mimeType).toBe('image/webp');
+  });
+
+  it('accepts bare base64 and image/jpg labels', () => {
+    expect(parseImageData(JPEG_BASE64)).toEqual({ mimeType: 'image/jpeg', data: JPEG_BASE64 });
+    expect(parseImageData(`data:image/jpg;base64,${JPEG_BASE64}`).mimeType).toBe('image/jpeg');
+  });
+
+  it('accepts JPEGs with data after the end marker', () => {
+    const jpeg = Buffer.concat([Buffer.from(JPEG_BASE64, 'base64'), Buffer.alloc(64, 0x20)]).toString('base64');
+
+    expect(parseImageData(jpeg).mimeType).toBe('image/jpeg');
+    expect(() => parseImageData(Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]).toString('base64'))).toThrow(
+      'corrupt'
+    );
+  });
+
+  it('rejects images whose label does not match their contents', () => {
+    expect(() => parseImageData(`data:image/png;base64,${JPEG_BASE64}`)).toThrow(
+      'Image is labelled image/png but its contents are image/jpeg'
+    );
+  });
+
+  it('rejects unsupported, corrupt and truncated payloads', () => {
+    expect(() => parseImageData(`data:image/gif;base64,${PNG_BASE64}`)).toThrow('Unsupported image type');
+    expect(() => parseImageData('data:image/png;base64,not base64!')).toThrow('not valid base64');
+    expect(() => parseImageData(Buffer.from('hello world').toString('base64'))).toThrow('corrupt');
+    expect(() => parseImageData(PNG_BASE64.slice(0, 20))).toThrow('corrupt');
+  });
+
+  it('raises invalid_argument errors', () => {
+    expect(() => parseImageData('data:image/png,abc')).toThrow(
+      expect.objectContaining({ code: 'invalid_argument' })
+    );
+  });
+
+  it('round-trips to a data URL', () => {
+    expect(toDataUrl(parseImageData(PNG_BASE64))).toBe(`data:image/png;base64,${PNG_BASE64}`);
+  });
+});
@@ -0,0 +1,97 @@
+// lib/imageData.ts
+import { InvalidArgumentError } from './errors';
+
+export const SUPPORTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+export interface InputImage {
+  mimeType: string;
+  data: string; // base64, without the data URL prefix
+}
+
+const DATA_URL_PATTERN = /^data:([^;,]+)(;base64)?,/;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+function normalizeMimeType(mimeType: string): string {
+  const lower = mimeType.toLowerCase();
+  return lower === 'image/jpg' ? 'image/jpeg' : lower;
+}
+
+// Identify the format from its magic bytes and check the file isn't truncated
+function detectMimeType(bytes: Buffer): string | undefined {
+  if (
+    bytes.length >= 33 &&
+    bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) &&
+    bytes.subarray(12, 16).toString('ascii') === 'IHDR'
+  ) {
+    return 'image/png';
+  }
+
+  if (
+    bytes.length >= 4 &&
+    bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff &&
+    // Cameras and editors often append data after the end marker, so it
+    // only has to be present somewhere
+    bytes.includes(Buffer.from([0xff, 0xd9]), 2)
+  ) {
+    return 'image/jpeg';
+  }
+
+  if (
+    bytes.length >= 16 &&
+    bytes.subarray(0, 4).toString('ascii') === 'RIFF' &&
+    bytes.subarray(8, 12).toString('ascii') === 'WEBP' &&
+    bytes.readUInt32LE(4) + 8 <= bytes.length
+  ) {
+    return 'image/webp';
+  }
+
+  return undefined;
+}
+
+/**
+ * Decodes an uploaded image (data URL or bare base64) and verifies its
+ * bytes match a supported format and any MIME type the data URL declares.
+ * Throws InvalidArgumentError describing the problem otherwise.
+ */
+export function parseImageData(input: string): InputImage {
+  let declaredType: string | undefined;
+  let base64 = input.trim();
+
+  const header = base64.match(DATA_URL_PATTERN);
+  if (header) {
+    if (!header[2]) {
+      throw new InvalidArgumentError('Image data URL must be base64 encoded');
+    }
+    declaredType = normalizeMimeType(header[1]);
+    base64 = base64.slice(header[0].length);
+  } else if (base64.startsWith('data:')) {
+    throw new InvalidArgumentError('Image data URL is malformed');
+  }
+
+  if (declaredType && !SUPPORTED_IMAGE_TYPES.includes(declaredType)) {
+    throw new InvalidArgumentError(
+      `Unsupported image type ${declaredType}; use PNG, JPEG or WebP`
+    );
+  }
+
+  if (!base64 || !BASE64_PATTERN.test(base64)) {
+    throw new InvalidArgumentError('Image data is not valid base64');
+  }
+
+  const detectedType = detectMimeType(Buffer.from(base64, 'base64'));
+  if (!detectedType) {
+    throw new InvalidArgumentError('Image data is corrupt or not a PNG, JPEG or WebP image');
+  }
+
+  if (declaredType && declaredType !== detectedType) {
+    throw new InvalidArgumentError(
+      `Image is labelled ${declaredType} but its contents are ${detectedType}`
+    );
+  }
+
+  return { mimeType: detectedType, data: base64 };
+}
+
+export function toDataUrl(image: InputImage): string {
+  return `data:${image.mimeType};base64,${image.data}`;
+}
@@ -0,0 +1,60 @@
+// lib/imageStore.ts
+import { getBlobStore } from './blobStore';
+import { InvalidArgumentError, NoImageReturnedError } from './errors';
+import { InputImage, parseImageData } from './imageData';
+
+// Served by app/api/images/[id]/route.ts
+export const IMAGE_ROUTE = '/api/images/';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+};
+
+const DATA_URL_PATTERN = /^data:([^;,]+);base64,/;
+
+export function imageIdFromUrl(url: string): string | undefined {
+  return url.startsWith(IMAGE_ROUTE) ? url.slice(IMAGE_ROUTE.length) : undefined;
+}
+
+/**
+ * Moves a generated image out of its data URL into the blob store, under
+ * the id of the job that produced it, and returns the URL it is served
+ * from. Anything other than a data URL is returned unchanged; a data URL
+ * of a type the app can't serve as an image is refused.
+ */
+export async function saveImage(jobId: string, imageUrl: string): Promise<string> {
+  const header = imageUrl.match(DATA_URL_PATTERN);
+  if (!header) return imageUrl;
+
+  const contentType = header[1].toLowerCase();
+  if (!EXTENSIONS[contentType]) {
+    throw new NoImageReturnedError(`The provider returned ${contentType} rather than a PNG, JPEG or WebP image`);
+  }
+  const id = `${jobId}.${EXTENSIONS[contentType]}`;
+  await getBlobStore().put(id, Buffer.from(imageUrl.slice(header[0].length), 'base64'), contentType);
+  return IMAGE_ROUTE + id;
+}
+
+// Reads a stored image back, e.g. to send it to the model as conversation history
+export async function loadImage(imageUrl: string): Promise<InputImage> {
+  const id = imageIdFromUrl(imageUrl);
+  if (!id) {
+    return parseImageData(imageUrl);
+  }
+
+  const blob = await getBlobStore().get(id);
+  if (!blob) {
+    throw new InvalidArgumentError(`Image ${id} is no longer available`);
+  }
+  const data = Buffer.from(await new Response(blob.body).arrayBuffer());
+  return { mimeType: blob.contentType, data: data.toString('base64') };
+}
+
+export async function deleteImage(imageUrl: string): Promise<void> {
+  const id = imageIdFromUrl(imageUrl);
+  if (id) {
+    await getBlobStore().delete(id);
+  }
+}
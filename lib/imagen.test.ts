@@ -0,0 +1,75 @@
+// lib/imagen.test.ts
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { ImagenClient } from './imagen';
+import { GenerationError } from './errors';
+
+const mockGenerateImages = jest.fn<(params: unknown) => Promise<unknown>>();
+
+jest.mock('@google/genai', () => {
+  const actual = jest.requireActual<typeof import('@google/genai')>('@google/genai');
+  return {
+    ...actual,
+    GoogleGenAI: jest.fn().mockImplementation(() => ({
+      models: { generateImages: mockGenerateImages },
+    })),
+  };
+});
+
+describe('ImagenClient', () => {
+  let client: ImagenClient;
+
+  beforeEach(() => {
+    process.env.GEMINI_API_KEY = 'test-key';
+    mockGenerateImages.mockReset();
+    client = new ImagenClient();
+  });
+
+  it('requests several images in one call', async () => {
+    mockGenerateImages.mockResolvedValue({
+      generatedImages: [
+        { image: { imageBytes: 'one', mimeType: 'image/png' } },
+        { image: { imageBytes: 'two', mimeType: 'image/png' } },
+        { image: { imageBytes: 'three', mimeType: 'image/png' } },
+      ],
+    });
+
+    const results = await client.generateBatch('a red fox', 3, {
+      aspectRatio: '16:9',
+      model: 'imagen-4.0-fast-generate-001',
+    });
+
+    expect(results).toEqual([
+      { imageUrl: 'data:image/png;base64,one' },
+      { imageUrl: 'data:image/png;base64,two' },
+      { imageUrl: 'data:image/png;base64,three' },
+    ]);
+    expect(mockGenerateImages).toHaveBeenCalledTimes(1);
+    expect(mockGenerateImages).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: 'imagen-4.0-fast-generate-001',
+        prompt: 'a red fox',
+        config: expect.objectContaining({ numberOfImages: 3, aspectRatio: '16:9' }),
+      })
+    );
+  });
+
+  it('reports filtered and missing images per slot', async () => {
+    mockGenerateImages.mockResolvedValue({
+      generatedImages: [
+        { image: { imageBytes: 'one', mimeType: 'image/png' } },
+        { raiFilteredReason: 'Filtered for violence' },
+      ],
+    });
+
+    const [first, filtered, missing] = await client.generateBatch('a red fox', 3);
+
+    expect(first).toEqual({ imageUrl: 'data:image/png;base64,one' });
+    expect(filtered).toBeInstanceOf(GenerationError);
+    expect((filtered as GenerationError).code).toBe('safety_blocked');
+    expect((missing as GenerationError).code).toBe('no_image_returned');
+  });
+
+  it('rejects input images', async () => {
+    await expect(client.edit()).rejects.toMatchObject({ code: 'invalid_argument' });
+  });
+});
@@ -0,0 +1,143 @@
+// lib/imagen.ts
+import { GoogleGenAI } from '@google/genai';
+import { DEFAULT_ASPECT_RATIO } from './aspectRatios';
+import {
+  GenerationError,
+  InvalidArgumentError,
+  NoImageReturnedError,
+  SafetyBlockedError,
+  classifyError,
+} from './errors';
+import { GEMINI_KEY_POOL_GROUP, KeyPool, getGeminiKeyPool } from './keyPool';
+import {
+  GenerateImageOptions,
+  GeneratedImage,
+  ImageProvider,
+  ProviderCapabilities,
+  ProviderLimits,
+} from './provider';
+import { KeyPoolResponse, QuotaStatus } from './types';
+
+// Aspect ratios accepted by generateImages
+export const IMAGEN_ASPECT_RATIOS = ['1:1', '3:4', '4:3', '9:16', '16:9'];
+
+// generateImages returns at most this many images per call
+export const IMAGEN_MAX_IMAGES_PER_REQUEST = 4;
+
+/**
+ * Text-to-image client for Imagen models. Unlike Gemini it can return
+ * several images from one request, so a batch costs fewer calls against
+ * the rate limit. Imagen takes no input images.
+ */
+export class ImagenClient implements ImageProvider {
+  readonly name = 'imagen';
+  readonly capabilities: ProviderCapabilities = {
+    edit: false,
+    reference: false,
+    compose: false,
+    conversation: false,
+    aspectRatios: IMAGEN_ASPECT_RATIOS,
+  };
+  readonly limits: ProviderLimits = {
+    maxPromptLength: 1900, // roughly Imagen's 480 token limit
+    maxInputImages: 0,
+  };
+  readonly rateLimitGroup = GEMINI_KEY_POOL_GROUP;
+
+  private keys: KeyPool;
+  private clients = new Map<string, GoogleGenAI>();
+  private model: string = 'imagen-4.0-generate-001';
+
+  constructor(keys: KeyPool = getGeminiKeyPool()) {
+    if (keys.size === 0) {
+      throw new Error('GEMINI_API_KEY environment variable is required');
+    }
+    this.keys = keys;
+  }
+
+  // Shared with every other client on the Gemini key pool
+  quota(): QuotaStatus {
+    return this.keys.quota();
+  }
+
+  keyPool(): KeyPoolResponse {
+    return this.keys.snapshot();
+  }
+
+  private clientFor(apiKey: string): GoogleGenAI {
+    let client = this.clients.get(apiKey);
+    if (!client) {
+      client = new GoogleGenAI({ apiKey });
+      this.clients.set(apiKey, client);
+    }
+    return client;
+  }
+
+  async generate(prompt: string, options: GenerateImageOptions = {}): Promise<GeneratedImage> {
+    const [result] = await this.generateBatch(prompt, 1, options);
+    if (result instanceof GenerationError) {
+      throw result;
+    }
+    return result;
+  }
+
+  async edit(): Promise<GeneratedImage> {
+    throw new InvalidArgumentError('Imagen models do not accept input images');
+  }
+
+  /**
+   * Requests `count` images in a single call. Each slot in the result is
+   * either an image or the reason Imagen withheld it.
+   */
+  async generateBatch(
+    prompt: string,
+    count: number,
+    options: GenerateImageOptions = {}
+  ): Promise<Array<GeneratedImage | GenerationError>> {
+    if (count < 1 || count > IMAGEN_MAX_IMAGES_PER_REQUEST) {
+      throw new InvalidArgumentError(
+        `Imagen generates between 1 and ${IMAGEN_MAX_IMAGES_PER_REQUEST} images per request`
+      );
+    }
+
+    const { aspectRatio = DEFAULT_ASPECT_RATIO, model = this.model, signal } = options;
+
+    try {
+      // The Gemini API watermarks Imagen output, which rules out seeds,
+      // and Imagen has no temperature, top P or top K
+      const response = await this.keys.run((apiKey) => this.clientFor(apiKey).models.generateImages({
+        model,
+        prompt,
+        config: {
+          abortSignal: signal,
+          numberOfImages: count,
+          aspectRatio,
+          includeRaiReason: true,
+        },
+      }));
+
+      const generated = response.generatedImages ?? [];
+      const results: Array<GeneratedImage | GenerationError> = [];
+
+      for (const image of generated.slice(0, count)) {
+        if (image.image?.imageBytes) {
+          const mimeType = image.image.mimeType || 'image/png';
+          results.push({ imageUrl: `data:${mimeType};base64,${image.image.imageBytes}` });
+        } else if (image.raiFilteredReason) {
+          results.push(new SafetyBlockedError(`Image blocked: ${image.raiFilteredReason}`));
+        } else {
+          results.push(new NoImageReturnedError('No image data found in response'));
+        }
+      }
+
+      // Filtered images are sometimes dropped without a reason
+      while (results.length < count) {
+        results.push(new NoImageReturnedError(`Imagen returned ${generated.length} of ${count} images`));
+      }
+
+      return results;
+    } catch (error) {
+      throw classifyError(error);
+    }
+  }
+}
@@ -17,6 +17,13 @@ describe('JobManager', () => {
     expect(job?.status).toBe('pending');
   });
 
+  it('records generation parameters on the job', () => {
+    const jobId = manager.createJob({ temperature: 0.5, seed: 7, topP: 0.9 });
+    const job = manager.getJob(jobId);
+
+    expect(job?.params).toEqual({ temperature: 0.5, seed: 7, topP: 0.9 });
+  });
+
   it('updates job status', () => {
     const jobId = manager.createJob();
     manager.updateJob(jobId, { status: 'complete', imageUrl: 'test.png' });
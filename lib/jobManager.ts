@@ -1,65 +1,88 @@
 // lib/jobManager.ts
-import { Job, Batch } from './types';
+import { Job, Batch, GenerateRequest, GenerationParams } from './types';
+import { JobStore, createJobStoreFromEnv } from './jobStore';
 import { randomUUID } from 'crypto';
+import { serverState } from './serverState';
 
 export class JobManager {
-  private jobs: Map<string, Job> = new Map();
-  private batches: Map<string, Batch> = new Map();
+  private store: JobStore;
 
-  createJob(): string {
+  constructor(store: JobStore = createJobStoreFromEnv()) {
+    this.store = store;
+  }
+
+  createJob(params: GenerationParams = { temperature: 1.0 }): string {
     const id = randomUUID();
     const job: Job = {
       id,
       status: 'pending',
+      params,
+      attempts: 0,
       createdAt: Date.now(),
     };
-    this.jobs.set(id, job);
+    this.store.saveJob(job);
     return id;
   }
 
   getJob(id: string): Job | undefined {
-    return this.jobs.get(id);
+    return this.store.getJob(id);
   }
 
   updateJob(id: string, updates: Partial<Job>): void {
-    const job = this.jobs.get(id);
+    const job = this.store.getJob(id);
     if (job) {
-      this.jobs.set(id, { ...job, ...updates });
+      this.store.saveJob({ ...job, ...updates });
     }
   }
 
-  createBatch(jobIds: string[], concurrency: number): string {
+  listJobs(): Job[] {
+    return this.store.listJobs();
+  }
+
+  // The request is kept so unfinished jobs can be picked up after a restart
+  createBatch(jobIds: string[], request: GenerateRequest): string {
     const id = randomUUID();
     const batch: Batch = {
       id,
       jobIds,
-      concurrency,
+      concurrency: request.concurrency,
+      provider: request.provider,
+      request,
       createdAt: Date.now(),
     };
-    this.batches.set(id, batch);
+    this.store.saveBatch(batch);
     return id;
   }
 
   getBatch(id: string): Batch | undefined {
-    return this.batches.get(id);
+    return this.store.getBatch(id);
   }
 
-  cleanup(olderThanMs: number): void {
+  listBatches(): Batch[] {
+    return this.store.listBatches();
+  }
+
+  // Returns the removed jobs, so their images can be deleted too
+  cleanup(olderThanMs: number): Job[] {
     const cutoff = Date.now() - olderThanMs;
+    const removed: Job[] = [];
 
-    for (const [id, job] of this.jobs.entries()) {
+    for (const job of this.store.listJobs()) {
       if (job.createdAt < cutoff) {
-        this.jobs.delete(id);
+        this.store.deleteJob(job.id);
+        removed.push(job);
       }
     }
 
-    for (const [id, batch] of this.batches.entries()) {
+    for (const batch of this.store.listBatches()) {
       if (batch.createdAt < cutoff) {
-        this.batches.delete(id);
+        this.store.deleteBatch(batch.id);
       }
     }
+
+    return removed;
   }
 }
 
 // Singleton instance
-export const jobManager = new JobManager();
+export const jobManager = serverState('jobManager', () => new JobManager());
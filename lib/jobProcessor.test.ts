@@ -0,0 +1,368 @@
+// lib/jobProcessor.test.ts
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import { getConcurrencyLimiter } from './adaptiveConcurrency';
+import { MemoryBlobStore, setBlobStore } from './blobStore';
+import { ProviderUnavailableError, SafetyBlockedError } from './errors';
+import { deleteImage, loadImage } from './imageStore';
+import { jobManager } from './jobManager';
+import { cancelJobs, processJobs, processTurn, recoverInterruptedJobs } from './jobProcessor';
+import { MockProvider } from './mockProvider';
+import { GenerateImageOptions, getProvider, registerProvider } from './provider';
+import { sessionManager } from './sessionManager';
+import { createStubProvider, registerStubModel } from './testHelpers';
+import { GenerateRequest } from './types';
+
+setBlobStore(new MemoryBlobStore());
+
+async function storedBytes(imageUrl: string | undefined): Promise<Buffer> {
+  return Buffer.from((await loadImage(imageUrl!)).data, 'base64');
+}
+
+function createRequest(overrides: Partial<GenerateRequest> = {}): GenerateRequest {
+  return {
+    prompt: 'a red fox',
+    imageCount: 3,
+    concurrency: 2,
+    temperature: 1.0,
+    provider: 'mock',
+    ...overrides,
+  };
+}
+
+describe('processJobs', () => {
+  beforeAll(() => {
+    registerProvider('mock', () => new MockProvider({ latencyMs: 5 }));
+  });
+
+  it('completes every job with the mock provider', async () => {
+    const jobIds = [jobManager.createJob(), jobManager.createJob(), jobManager.createJob()];
+
+    await processJobs(jobIds, createRequest(), 2);
+
+    for (const jobId of jobIds) {
+      const job = jobManager.getJob(jobId);
+      expect(job?.status).toBe('complete');
+      expect(job?.imageUrl).toBe(`/api/images/${jobId}.png`);
+    }
+  });
+
+  it('completes every job with auto concurrency', async () => {
+    const jobIds = Array.from({ length: 4 }, () => jobManager.createJob());
+
+    await processJobs(jobIds, createRequest({ concurrency: 'auto' }), 'auto');
+
+    expect(jobIds.map((jobId) => jobManager.getJob(jobId)?.status)).toEqual([
+      'complete',
+      'complete',
+      'complete',
+      'complete',
+    ]);
+  });
+
+  it('generates images in the requested aspect ratio', async () => {
+    const jobIds = [jobManager.createJob({ temperature: 1.0, aspectRatio: '9:16' })];
+
+    await processJobs(jobIds, createRequest(), 1);
+
+    const png = await storedBytes(jobManager.getJob(jobIds[0])?.imageUrl);
+    expect(png.readUInt32BE(16)).toBe(144); // width
+    expect(png.readUInt32BE(20)).toBe(256); // height
+  });
+
+  it('marks jobs as errored when the provider fails', async () => {
+    const jobIds = [jobManager.createJob()];
+
+    await processJobs(jobIds, createRequest({ prompt: 'a red fox [mock:400]' }), 1);
+
+    const job = jobManager.getJob(jobIds[0]);
+    expect(job?.status).toBe('error');
+    expect(job?.error?.code).toBe('invalid_argument');
+  });
+
+  it('fails jobs whose input images do not parse', async () => {
+    const jobIds = [jobManager.createJob()];
+
+    await processJobs(jobIds, createRequest({ images: ['data:image/png;base64,not-an-image'] }), 1);
+
+    const job = jobManager.getJob(jobIds[0]);
+    expect(job?.status).toBe('error');
+    expect(job?.error?.code).toBe('invalid_argument');
+  });
+
+  it('fails the job when its image cannot be stored', async () => {
+    const store = new MemoryBlobStore();
+    jest.spyOn(store, 'put').mockRejectedValue(new Error('disk full'));
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    setBlobStore(store);
+    const jobIds = [jobManager.createJob()];
+
+    try {
+      await processJobs(jobIds, createRequest(), 1);
+    } finally {
+      setBlobStore(new MemoryBlobStore());
+      errorSpy.mockRestore();
+    }
+
+    const job = jobManager.getJob(jobIds[0]);
+    expect(job?.status).toBe('error');
+    expect(job?.imageUrl).toBeUndefined();
+    expect(job?.error?.message).toContain('disk full');
+  });
+
+  it('refuses images of a type it cannot serve', async () => {
+    registerProvider('gif', () =>
+      createStubProvider('gif', { generate: async () => ({ imageUrl: 'data:image/gif;base64,R0lGODlh' }) })
+    );
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const jobIds = [jobManager.createJob()];
+
+    await processJobs(jobIds, createRequest({ provider: 'gif' }), 1);
+    errorSpy.mockRestore();
+
+    expect(jobManager.getJob(jobIds[0])).toMatchObject({ status: 'error', error: { code: 'no_image_returned' } });
+  });
+});
+
+describe('recoverInterruptedJobs', () => {
+  beforeAll(() => {
+    registerProvider('mock', () => new MockProvider({ latencyMs: 5 }));
+  });
+
+  it('resumes batch jobs and cancels jobs it cannot resume', async () => {
+    const jobIds = [jobManager.createJob(), jobManager.createJob()];
+    jobManager.createBatch(jobIds, createRequest({ imageCount: 2 }));
+    jobManager.updateJob(jobIds[0], { status: 'generating', attempts: 1 });
+    const orphan = jobManager.createJob();
+    jobManager.updateJob(orphan, { status: 'generating' });
+
+    recoverInterruptedJobs();
+    for (let i = 0; i < 100 && jobIds.some((id) => jobManager.getJob(id)?.status !== 'complete'); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+
+    expect(jobIds.map((jobId) => jobManager.getJob(jobId)?.status)).toEqual(['complete', 'complete']);
+    expect(jobManager.getJob(orphan)).toMatchObject({
+      status: 'cancelled',
+      error: { message: 'Interrupted by a server restart' },
+    });
+  });
+});
+
+describe('recoverInterruptedJobs from a separate bundle', () => {
+  afterAll(() => {
+    delete process.env.MOCK_PROVIDER;
+    delete process.env.MOCK_PROVIDER_LATENCY_MS;
+  });
+
+  it('leaves the recovered jobs cancellable from the routes', async () => {
+    const jobIds = [jobManager.createJob(), jobManager.createJob()];
+    jobManager.createBatch(jobIds, createRequest({ imageCount: 2, concurrency: 1 }));
+    jobManager.updateJob(jobIds[0], { status: 'generating' });
+
+    // Next.js gives instrumentation.ts its own copy of every module
+    process.env.MOCK_PROVIDER = 'true';
+    process.env.MOCK_PROVIDER_LATENCY_MS = '10000';
+    await jest.isolateModulesAsync(async () => {
+      const instrumentation = await import('./jobProcessor');
+      instrumentation.recoverInterruptedJobs();
+    });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(jobManager.getJob(jobIds[0])?.status).toBe('generating');
+
+    expect(cancelJobs(jobIds)).toBe(2);
+    for (let i = 0; i < 100 && jobManager.getJob(jobIds[0])?.status === 'generating'; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+
+    expect(jobIds.map((jobId) => jobManager.getJob(jobId)?.status)).toEqual(['cancelled', 'cancelled']);
+    // Aborted where it runs, not just marked cancelled while it carries on
+    expect(jobManager.getJob(jobIds[0])?.error?.message).toBe('Generation was cancelled');
+  });
+});
+
+describe('cancelJobs', () => {
+  beforeAll(() => {
+    registerProvider('slow-mock', () => new MockProvider({ latencyMs: 10000 }));
+  });
+
+  it('aborts running jobs and skips pending ones', async () => {
+    const jobIds = [jobManager.createJob(), jobManager.createJob()];
+    const run = processJobs(jobIds, createRequest({ provider: 'slow-mock' }), 1);
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(jobManager.getJob(jobIds[0])?.status).toBe('generating');
+    expect(cancelJobs(jobIds)).toBe(2);
+    await run;
+
+    for (const jobId of jobIds) {
+      const job = jobManager.getJob(jobId);
+      expect(job?.status).toBe('cancelled');
+      expect(job?.error?.code).toBe('cancelled');
+    }
+  });
+
+  it('marks a generating job with no call in flight as cancelled', () => {
+    const jobId = jobManager.createJob();
+    jobManager.updateJob(jobId, { status: 'generating' });
+
+    expect(cancelJobs([jobId])).toBe(1);
+    expect(jobManager.getJob(jobId)).toMatchObject({ status: 'cancelled', error: { code: 'cancelled' } });
+  });
+
+  it('cancels one job of a group without aborting the rest', async () => {
+    let aborted = false;
+    registerProvider('slow-batching', () =>
+      createStubProvider('slow-batching', {
+        generateBatch: async (prompt: string, count: number, options: GenerateImageOptions = {}) => {
+          await new Promise((resolve) => setTimeout(resolve, 50));
+          aborted = options.signal?.aborted ?? false;
+          return Array.from({ length: count }, () => ({ imageUrl: 'data:image/png;base64,Zm94' }));
+        },
+      })
+    );
+    registerStubModel('slow-batching-model', 'slow-batching', { maxImagesPerRequest: 2 });
+    const jobIds = [jobManager.createJob({ temperature: 1.0, model: 'slow-batching-model' }), jobManager.createJob()];
+    const run = processJobs(jobIds, createRequest({ provider: 'slow-batching', model: 'slow-batching-model' }), 1);
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(cancelJobs([jobIds[0]])).toBe(1);
+    await run;
+
+    expect(aborted).toBe(false);
+    expect(jobManager.getJob(jobIds[0])).toMatchObject({
+      status: 'cancelled',
+      error: { message: 'Cancelled while generating' },
+    });
+    expect(jobManager.getJob(jobIds[1])?.status).toBe('complete');
+  });
+});
+
+describe('processJobs with batching models', () => {
+  const generateBatch = jest.fn(async (prompt: string, count: number) =>
+    Array.from({ length: count }, (_, i) => ({
+      imageUrl: `data:image/png;base64,${Buffer.from(`${prompt}-${i}`).toString('base64')}`,
+    }))
+  );
+
+  beforeAll(() => {
+    registerProvider('batching', () => createStubProvider('batching', { generateBatch }));
+    registerStubModel('batching-model', 'batching', { maxImagesPerRequest: 4 });
+  });
+
+  it('groups jobs into as few upstream requests as the model allows', async () => {
+    const jobIds = Array.from({ length: 6 }, () => jobManager.createJob());
+
+    await processJobs(jobIds, createRequest({ prompt: 'fox', provider: 'batching', model: 'batching-model' }), 2);
+
+    expect(generateBatch.mock.calls.map((call) => call[1])).toEqual([4, 2]);
+    const images = await Promise.all(jobIds.map((jobId) => storedBytes(jobManager.getJob(jobId)?.imageUrl)));
+    expect(images.map((image) => image.toString())).toEqual(['fox-0', 'fox-1', 'fox-2', 'fox-3', 'fox-0', 'fox-1']);
+  });
+});
+
+describe('processJobs with a fallback chain', () => {
+  const flakyGenerate = jest.fn(async (prompt: string): Promise<{ imageUrl: string }> => {
+    throw prompt.includes('unsafe')
+      ? new SafetyBlockedError('blocked')
+      : new ProviderUnavailableError('service down');
+  });
+
+  beforeAll(() => {
+    process.env.FALLBACK_CHAIN = 'flaky-model,backup-model';
+    process.env.GENERATION_MAX_ATTEMPTS = '1';
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    registerProvider('flaky', () => createStubProvider('flaky', { generate: flakyGenerate, edit: flakyGenerate }));
+    registerProvider('mock', () => new MockProvider({ latencyMs: 5 }));
+    for (const [id, provider] of [['flaky-model', 'flaky'], ['backup-model', 'mock']]) {
+      registerStubModel(id, provider, { costPerImage: 0.01 });
+    }
+  });
+
+  afterAll(() => {
+    delete process.env.FALLBACK_CHAIN;
+    delete process.env.GENERATION_MAX_ATTEMPTS;
+    jest.restoreAllMocks();
+  });
+
+  it('moves retryable failures to the next model and records who produced the image', async () => {
+    const jobIds = [jobManager.createJob({ temperature: 1.0, aspectRatio: '1:1', model: 'flaky-model' })];
+
+    await processJobs(jobIds, createRequest({ provider: 'flaky', model: 'flaky-model' }), 1);
+
+    expect(jobManager.getJob(jobIds[0])).toMatchObject({
+      status: 'complete',
+      provider: 'mock',
+      model: 'backup-model',
+    });
+  });
+
+  it('moves an auto job to a slot on the fallback provider', async () => {
+    const flakyAcquire = jest.spyOn(getConcurrencyLimiter(getProvider('flaky')), 'acquire');
+    const backupAcquire = jest.spyOn(getConcurrencyLimiter(getProvider('mock')), 'acquire');
+    const jobIds = [jobManager.createJob({ temperature: 1.0, aspectRatio: '1:1', model: 'flaky-model' })];
+
+    await processJobs(jobIds, createRequest({ provider: 'flaky', model: 'flaky-model', concurrency: 'auto' }), 'auto');
+
+    expect(jobManager.getJob(jobIds[0])).toMatchObject({ status: 'complete', provider: 'mock' });
+    expect(flakyAcquire).toHaveBeenCalledTimes(1);
+    expect(backupAcquire).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps non-retryable failures on the original model', async () => {
+    const jobIds = [jobManager.createJob({ temperature: 1.0, aspectRatio: '1:1', model: 'flaky-model' })];
+
+    await processJobs(jobIds, createRequest({ prompt: 'unsafe fox', provider: 'flaky', model: 'flaky-model' }), 1);
+
+    expect(jobManager.getJob(jobIds[0])).toMatchObject({
+      status: 'error',
+      error: { code: 'safety_blocked' },
+    });
+  });
+});
+
+describe('processTurn', () => {
+  beforeAll(() => {
+    registerProvider('mock', () => new MockProvider({ latencyMs: 5 }));
+  });
+
+  async function runTurn(sessionId: string, parentId: string | null, prompt: string): Promise<string> {
+    const jobId = jobManager.createJob();
+    const turnId = sessionManager.addTurn(sessionId, { parentId, prompt, images: [], jobId })!;
+    await processTurn(sessionId, turnId, { prompt, provider: 'mock' });
+    return turnId;
+  }
+
+  it('stores the generated image on the turn', async () => {
+    const sessionId = sessionManager.createSession();
+    const turnId = await runTurn(sessionId, null, 'a red fox');
+
+    const turn = sessionManager.getTurn(sessionId, turnId)!;
+    expect(turn.imageUrl).toBe(`/api/images/${turn.jobId}.png`);
+    expect(jobManager.getJob(turn.jobId)?.status).toBe('complete');
+  });
+
+  it('sends the branch history so the same prompt differs per branch', async () => {
+    const sessionId = sessionManager.createSession();
+    const root = await runTurn(sessionId, null, 'a red fox');
+    const left = await runTurn(sessionId, root, 'make it night');
+    const right = await runTurn(sessionId, root, 'make it winter');
+    const fromLeft = await runTurn(sessionId, left, 'add a moon');
+    const fromRight = await runTurn(sessionId, right, 'add a moon');
+
+    expect(await storedBytes(sessionManager.getTurn(sessionId, fromLeft)?.imageUrl)).not.toEqual(
+      await storedBytes(sessionManager.getTurn(sessionId, fromRight)?.imageUrl)
+    );
+  });
+
+  it('fails the turn when an earlier image is no longer stored', async () => {
+    const sessionId = sessionManager.createSession();
+    const root = await runTurn(sessionId, null, 'a red fox');
+    await deleteImage(sessionManager.getTurn(sessionId, root)!.imageUrl!);
+
+    const next = await runTurn(sessionId, root, 'make it night');
+
+    const job = jobManager.getJob(sessionManager.getTurn(sessionId, next)!.jobId);
+    expect(job?.status).toBe('error');
+    expect(job?.error?.code).toBe('invalid_argument');
+  });
+});
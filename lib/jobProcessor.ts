@@ -0,0 +1,511 @@
+// lib/jobProcessor.ts
+import { ConcurrencyLimiter, getConcurrencyLimiter } from './adaptiveConcurrency';
+import { getCircuitBreaker } from './circuitBreaker';
+import { classifyError, GenerationCancelledError, GenerationError, InvalidArgumentError } from './errors';
+import { FallbackRequirements, getFallbackModels } from './fallback';
+import { parseImageData } from './imageData';
+import { loadImage, saveImage } from './imageStore';
+import { jobManager } from './jobManager';
+import { getModel } from './models';
+import { estimateCost } from './pricing';
+import { ConversationMessage, GenerateImageOptions, GeneratedImage, ImageProvider, getProvider } from './provider';
+import { getRetryPolicy, withRetry } from './retry';
+import { serverState } from './serverState';
+import { sessionManager } from './sessionManager';
+import { CreateTurnRequest, GenerateRequest } from './types';
+
+// Jobs in flight. A group of jobs shares one upstream call and so one
+// abort controller; `cancelled` holds the group's jobs cancelled so far.
+interface InFlight {
+  controller: AbortController;
+  jobIds: string[];
+  cancelled: Set<string>;
+}
+
+const inFlight = serverState('jobsInFlight', () => new Map<string, InFlight>());
+
+/**
+ * Cancels jobs: queued ones never start and running ones have their
+ * provider call aborted. Returns how many jobs were still unfinished.
+ */
+export function cancelJobs(jobIds: string[]): number {
+  let cancelled = 0;
+  for (const jobId of jobIds) {
+    const job = jobManager.getJob(jobId);
+    if (job?.status === 'pending') {
+      failJob(jobId, new GenerationCancelledError('Cancelled before generation started'));
+      cancelled++;
+    } else if (job?.status === 'generating') {
+      if (!cancelInFlight(jobId)) {
+        // Nothing here is running it, so nothing would ever finish it
+        failJob(jobId, new GenerationCancelledError('Cancelled while generating'));
+      }
+      cancelled++;
+    }
+  }
+  return cancelled;
+}
+
+// A job in a group is cancelled on its own while the call carries on for
+// the rest of the group; the call is aborted once nobody is waiting on it.
+// Returns false when the job has no call in flight.
+function cancelInFlight(jobId: string): boolean {
+  const flight = inFlight.get(jobId);
+  if (!flight) return false;
+
+  flight.cancelled.add(jobId);
+  if (flight.jobIds.length > 1) {
+    failJob(jobId, new GenerationCancelledError('Cancelled while generating'));
+  }
+  if (flight.cancelled.size === flight.jobIds.length) {
+    flight.controller.abort();
+  }
+  return true;
+}
+
+function track(jobIds: string[]): InFlight {
+  const flight: InFlight = { controller: new AbortController(), jobIds, cancelled: new Set() };
+  for (const jobId of jobIds) {
+    inFlight.set(jobId, flight);
+  }
+  return flight;
+}
+
+function untrack(jobIds: string[]) {
+  for (const jobId of jobIds) {
+    inFlight.delete(jobId);
+  }
+}
+
+/**
+ * Resumes jobs a previous server process left pending or generating, as
+ * with a persistent job store. Jobs of a batch restart from its stored
+ * request; others, such as conversation turns whose session is gone, are
+ * marked cancelled. Called once at startup, from instrumentation.ts.
+ */
+export function recoverInterruptedJobs() {
+  const interrupted = new Set(
+    jobManager
+      .listJobs()
+      .filter((job) => job.status === 'pending' || job.status === 'generating')
+      .map((job) => job.id)
+  );
+  if (interrupted.size === 0) return;
+
+  for (const batch of jobManager.listBatches()) {
+    const jobIds = batch.jobIds.filter((jobId) => interrupted.has(jobId));
+    if (jobIds.length === 0 || !batch.request) continue;
+
+    for (const jobId of jobIds) {
+      jobManager.updateJob(jobId, { status: 'pending', nextRetryAt: undefined });
+      interrupted.delete(jobId);
+    }
+    processJobs(jobIds, batch.request, batch.concurrency).catch((error) => {
+      console.error(`Batch ${batch.id} processing error:`, error);
+    });
+  }
+
+  for (const jobId of interrupted) {
+    failJob(jobId, new GenerationCancelledError('Interrupted by a server restart'));
+  }
+}
+
+export async function processJobs(
+  jobIds: string[],
+  request: GenerateRequest,
+  concurrency: number | 'auto'
+) {
+  // Models that return several images per call take a group of jobs at a
+  // time, so each upstream request counts once against the rate limit
+  const groupSize = getGroupSize(request.provider, request.model, request.images?.length ?? 0);
+  const queue: string[][] = [];
+  for (let i = 0; i < jobIds.length; i += groupSize) {
+    queue.push(jobIds.slice(i, i + groupSize));
+  }
+  const active = new Set<Promise<void>>();
+
+  // Skip jobs cancelled while they waited in the queue
+  const nextGroup = () => queue.shift()!.filter((jobId) => jobManager.getJob(jobId)?.status === 'pending');
+  const start = (group: string[], slot?: Slot) => {
+    const work =
+      group.length > 1
+        ? processGroup(group, request, slot)
+        : processJob(group[0], request, { auto: slot !== undefined, slot });
+    const promise = work.finally(() => {
+      active.delete(promise);
+      slot?.release();
+    });
+    active.add(promise);
+  };
+
+  const limiter = concurrency === 'auto' ? limiterFor(request.provider) : undefined;
+  if (limiter) {
+    // Slots are shared with every other batch on the same credentials
+    while (queue.length > 0) {
+      const release = await limiter.acquire();
+      const group = nextGroup();
+      if (group.length > 0) {
+        start(group, { limiter, release });
+      } else {
+        release();
+      }
+    }
+    await Promise.all(active);
+    return;
+  }
+
+  const limit = concurrency === 'auto' ? 1 : concurrency;
+  while (queue.length > 0 || active.size > 0) {
+    // Start new requests up to concurrency limit
+    while (active.size < limit && queue.length > 0) {
+      const group = nextGroup();
+      if (group.length > 0) {
+        start(group);
+      }
+    }
+
+    // Wait for at least one to complete
+    if (active.size > 0) {
+      await Promise.race(active);
+    }
+  }
+}
+
+function limiterFor(providerName: string | undefined): ConcurrencyLimiter | undefined {
+  try {
+    return getConcurrencyLimiter(getProvider(providerName));
+  } catch {
+    // Let each job report why the provider couldn't be created
+    return undefined;
+  }
+}
+
+/**
+ * The adaptive concurrency a batch's provider is running at, for batches
+ * started with `concurrency: 'auto'`.
+ */
+export function getAutoConcurrency(providerName: string | undefined): number | undefined {
+  return limiterFor(providerName)?.concurrency;
+}
+
+// How many of a batch's images one upstream request produces
+export function getGroupSize(
+  providerName: string | undefined,
+  modelId: string | undefined,
+  inputImageCount: number
+): number {
+  if (inputImageCount > 0 || !modelId) return 1;
+
+  try {
+    const provider = getProvider(providerName);
+    return provider.generateBatch ? getModel(modelId)?.maxImagesPerRequest ?? 1 : 1;
+  } catch {
+    // Let each job report why the provider couldn't be created
+    return 1;
+  }
+}
+
+// Generates several jobs' images with one upstream call. Jobs the group
+// couldn't produce for a retryable reason move on to the fallback models,
+// each waiting for its own slot in auto mode.
+async function processGroup(jobIds: string[], request: GenerateRequest, slot?: Slot) {
+  const flight = track(jobIds);
+  const activeJobIds = () => jobIds.filter((jobId) => !flight.cancelled.has(jobId));
+  const fallbackJobIds: string[] = [];
+  const model = jobManager.getJob(jobIds[0])?.params.model;
+  const canFallBack = getFallbackModels(model, fallbackNeeds(jobIds[0], request)).length > 0;
+  const failOrFallBack = (jobId: string, error: unknown) => {
+    if (flight.cancelled.has(jobId)) {
+      return; // already marked cancelled
+    }
+    if (canFallBack && classifyError(error).retryable) {
+      fallbackJobIds.push(jobId);
+    } else {
+      failJob(jobId, error);
+    }
+  };
+
+  try {
+    for (const jobId of jobIds) {
+      jobManager.updateJob(jobId, { status: 'generating' });
+    }
+
+    const provider = getProvider(request.provider);
+    const breaker = getCircuitBreaker(provider.name);
+    breaker.assertAvailable();
+    const limiter = getConcurrencyLimiter(provider);
+    const options = jobOptions(jobIds[0], request.temperature);
+
+    const results = await withRetry(
+      (attempt, signal) => {
+        for (const jobId of activeJobIds()) {
+          jobManager.updateJob(jobId, { attempts: attempt, nextRetryAt: undefined });
+        }
+        return limiter.track(() =>
+          breaker.run(() => provider.generateBatch!(request.prompt, jobIds.length, { ...options, signal }))
+        );
+      },
+      getRetryPolicy(request.timeoutMs),
+      {
+        onRetry: (attempt, delayMs) => {
+          for (const jobId of activeJobIds()) {
+            jobManager.updateJob(jobId, { nextRetryAt: Date.now() + delayMs });
+          }
+        },
+        signal: flight.controller.signal,
+      }
+    );
+
+    for (const [i, jobId] of jobIds.entries()) {
+      const result = results[i];
+      if (flight.cancelled.has(jobId)) {
+        continue;
+      }
+      if (result instanceof GenerationError) {
+        failOrFallBack(jobId, result);
+      } else {
+        await completeJob(jobId, result, provider.name, model);
+      }
+    }
+  } catch (error) {
+    for (const jobId of jobIds) {
+      failOrFallBack(jobId, error);
+    }
+  } finally {
+    untrack(jobIds);
+    slot?.release();
+  }
+
+  await Promise.all(
+    fallbackJobIds.map((jobId) => processJob(jobId, request, { fallbackOnly: true, auto: slot !== undefined }))
+  );
+}
+
+async function processJob(
+  jobId: string,
+  request: GenerateRequest,
+  { fallbackOnly, auto, slot }: Pick<RunJobOptions, 'fallbackOnly' | 'auto' | 'slot'> = {}
+) {
+  await runJob(jobId, request.provider, fallbackNeeds(jobId, request), (provider, model) => {
+    // Inside runJob, so an image that doesn't parse fails this job alone
+    const images = (request.images ?? []).map(parseImageData);
+    const options = {
+      ...jobOptions(jobId, request.temperature),
+      model,
+      mode: request.mode,
+      includeText: request.includeText,
+    };
+
+    return (attempt, signal) => {
+      jobManager.updateJob(jobId, { attempts: attempt, nextRetryAt: undefined });
+      return images.length > 0
+        ? provider.edit(request.prompt, images, { ...options, signal })
+        : provider.generate(request.prompt, { ...options, signal });
+    };
+  }, { fallbackOnly, auto, slot, timeoutMs: request.timeoutMs });
+}
+
+function fallbackNeeds(jobId: string, request: GenerateRequest): FallbackRequirements {
+  const inputImages = request.images?.length ?? 0;
+  return {
+    inputImages,
+    mode: inputImages > 0 ? request.mode ?? 'edit' : undefined,
+    aspectRatio: jobManager.getJob(jobId)?.params.aspectRatio,
+  };
+}
+
+/**
+ * Generates the image for a session turn, sending the provider the whole
+ * branch the turn continues: each earlier prompt with its inputs, followed
+ * by the image the model answered with.
+ */
+export async function processTurn(sessionId: string, turnId: string, request: CreateTurnRequest) {
+  const turn = sessionManager.getTurn(sessionId, turnId);
+  if (!turn) return;
+
+  const messages: ConversationMessage[] = [];
+  try {
+    for (const previous of sessionManager.getBranch(sessionId, turn.parentId)) {
+      messages.push({ role: 'user', text: previous.prompt, images: previous.images.map(parseImageData) });
+      messages.push({
+        role: 'model',
+        text: previous.text,
+        // Earlier answers are in the blob store, and may have expired from it
+        images: previous.imageUrl ? [await loadImage(previous.imageUrl)] : [],
+      });
+    }
+    messages.push({ role: 'user', text: turn.prompt, images: turn.images.map(parseImageData) });
+  } catch (error) {
+    failJob(turn.jobId, error);
+    return;
+  }
+
+  const needs: FallbackRequirements = {
+    inputImages: turn.images.length,
+    conversation: true,
+    aspectRatio: jobManager.getJob(turn.jobId)?.params.aspectRatio,
+  };
+
+  await runJob(turn.jobId, request.provider, needs, (provider, model) => {
+    if (!provider.converse) {
+      throw new InvalidArgumentError(`Provider ${provider.name} does not support conversations`);
+    }
+
+    const options = { ...jobOptions(turn.jobId, request.temperature), model, includeText: request.includeText };
+    const converse = provider.converse.bind(provider);
+
+    return (attempt, signal) => {
+      jobManager.updateJob(turn.jobId, { attempts: attempt, nextRetryAt: undefined });
+      return converse(messages, { ...options, signal });
+    };
+  }, {
+    onComplete: (imageUrl, result) => {
+      sessionManager.updateTurn(sessionId, turnId, { imageUrl, text: result.text });
+    },
+  });
+}
+
+function jobOptions(jobId: string, temperature?: number): GenerateImageOptions {
+  const params = jobManager.getJob(jobId)?.params;
+  return {
+    temperature: params?.temperature ?? temperature,
+    seed: params?.seed,
+    topP: params?.topP,
+    topK: params?.topK,
+    aspectRatio: params?.aspectRatio,
+    model: params?.model,
+  };
+}
+
+// A place in one provider's adaptive concurrency, held by an 'auto' job
+interface Slot {
+  limiter: ConcurrencyLimiter;
+  release: () => void;
+}
+
+interface RunJobOptions {
+  onComplete?: (imageUrl: string, result: GeneratedImage) => void;
+  fallbackOnly?: boolean; // the job's own model already failed, e.g. in a group
+  timeoutMs?: number; // per attempt, overrides GENERATION_TIMEOUT_MS
+  auto?: boolean; // hold a slot in each target's limiter while running on it
+  slot?: Slot; // one processJobs already acquired for the first target
+}
+
+// Shared lifecycle for a single job: mark it generating, run the attempt
+// function under the retry policy and the provider's circuit breaker, and
+// record the outcome. While the errors are retryable, the job then moves
+// down the fallback chain, with `prepare` building the attempt function for
+// each provider and model in turn.
+async function runJob(
+  jobId: string,
+  providerName: string | undefined,
+  needs: FallbackRequirements,
+  prepare: (
+    provider: ImageProvider,
+    model: string | undefined
+  ) => (attempt: number, signal: AbortSignal) => Promise<GeneratedImage>,
+  { onComplete, fallbackOnly = false, timeoutMs, auto = false, slot }: RunJobOptions = {}
+) {
+  const { controller } = track([jobId]);
+  let held = slot;
+  try {
+    jobManager.updateJob(jobId, { status: 'generating' });
+
+    const model = jobManager.getJob(jobId)?.params.model;
+    const targets = [
+      ...(fallbackOnly ? [] : [{ provider: providerName, model }]),
+      ...getFallbackModels(model, needs).map((fallback) => ({ provider: fallback.provider, model: fallback.id })),
+    ];
+
+    for (let i = 0; ; i++) {
+      try {
+        const provider = getProvider(targets[i].provider);
+        // An open circuit fails the job straight away, or hands it to a fallback
+        const breaker = getCircuitBreaker(provider.name);
+        breaker.assertAvailable();
+
+        // Every attempt feeds the provider's adaptive concurrency, auto or not
+        const limiter = getConcurrencyLimiter(provider);
+        if (auto && held?.limiter !== limiter) {
+          // A fallback on other credentials waits its turn there instead
+          held?.release();
+          held = { limiter, release: await limiter.acquire() };
+        }
+        const attemptFn = prepare(provider, targets[i].model);
+        const guardedAttempt = (attempt: number, signal: AbortSignal) =>
+          limiter.track(() => breaker.run(() => attemptFn(attempt, signal)));
+        const result = await withRetry(guardedAttempt, getRetryPolicy(timeoutMs), {
+          onRetry: (attempt, delayMs) => {
+            jobManager.updateJob(jobId, { nextRetryAt: Date.now() + delayMs });
+          },
+          signal: controller.signal,
+        });
+
+        const imageUrl = await completeJob(jobId, result, provider.name, targets[i].model);
+        if (imageUrl) {
+          onComplete?.(imageUrl, result);
+        }
+        return;
+      } catch (error) {
+        const generationError = classifyError(error);
+        if (!generationError.retryable || i + 1 >= targets.length) {
+          throw generationError;
+        }
+        console.warn(
+          `Job ${jobId} failed on ${targets[i].model ?? targets[i].provider} (${generationError.code}), ` +
+            `falling back to ${targets[i + 1].model}`
+        );
+      }
+    }
+  } catch (error) {
+    failJob(jobId, error);
+  } finally {
+    untrack([jobId]);
+    held?.release();
+  }
+}
+
+// Stores the image and records the outcome. Returns the image's URL, or
+// undefined when storing it failed, which fails the job rather than
+// counting against the provider.
+async function completeJob(
+  jobId: string,
+  result: GeneratedImage,
+  provider: string,
+  model: string | undefined
+): Promise<string | undefined> {
+  let imageUrl: string;
+  try {
+    imageUrl = await saveImage(jobId, result.imageUrl);
+  } catch (error) {
+    console.error(`Failed to store the image for job ${jobId}:`, error);
+    failJob(jobId, error);
+    return undefined;
+  }
+
+  jobManager.updateJob(jobId, {
+    status: 'complete',
+    imageUrl,
+    text: result.text,
+    usage: result.usage,
+    provider,
+    model,
+    cost: estimateCost(model, result.usage),
+  });
+  return imageUrl;
+}
+
+function failJob(jobId: string, error: unknown) {
+  const generationError = classifyError(error);
+  jobManager.updateJob(jobId, {
+    // Timeouts and cancellations get their own terminal states
+    status:
+      generationError.code === 'timeout' || generationError.code === 'cancelled'
+        ? generationError.code
+        : 'error',
+    nextRetryAt: undefined,
+    error: generationError.toJobError(),
+    safety: generationError.safety,
+    text: generationError.modelText,
+  });
+}
@@ -0,0 +1,49 @@
+// lib/jobStatus.ts
+import { Job, JobStatus, StatusResponse, TokenUsage } from './types';
+
+// Statuses a job never leaves
+export const FINISHED_JOB_STATUSES: JobStatus[] = ['complete', 'error', 'timeout', 'cancelled'];
+
+// Unsuccessful outcomes, shown with their error details
+export const FAILED_JOB_STATUSES: JobStatus[] = ['error', 'timeout', 'cancelled'];
+
+export function isJobFinished(status: JobStatus): boolean {
+  return FINISHED_JOB_STATUSES.includes(status);
+}
+
+export function isJobFailed(status: JobStatus): boolean {
+  return FAILED_JOB_STATUSES.includes(status);
+}
+
+export function toStatusResponse(job: Job): StatusResponse {
+  return {
+    jobId: job.id,
+    status: job.status,
+    params: job.params,
+    imageUrl: job.imageUrl,
+    text: job.text,
+    error: job.error,
+    safety: job.safety,
+    attempts: job.attempts,
+    nextRetryAt: job.nextRetryAt,
+    usage: job.usage,
+    cost: job.cost,
+    provider: job.provider,
+    model: job.model,
+  };
+}
+
+// Token and cost totals over a set of jobs; unfinished jobs add nothing yet
+export function summarizeUsage(jobs: Array<Pick<StatusResponse, 'usage' | 'cost'>>): {
+  usage: TokenUsage;
+  cost: number;
+} {
+  const usage: TokenUsage = { promptTokens: 0, outputTokens: 0 };
+  let cost = 0;
+  for (const job of jobs) {
+    usage.promptTokens += job.usage?.promptTokens ?? 0;
+    usage.outputTokens += job.usage?.outputTokens ?? 0;
+    cost += job.cost ?? 0;
+  }
+  return { usage, cost };
+}
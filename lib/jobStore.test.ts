@@ -0,0 +1,114 @@
+// lib/jobStore.test.ts
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileJobStore } from './jobStore';
+import { JobManager } from './jobManager';
+
+describe('FileJobStore', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'job-store-'));
+    path = join(dir, 'jobs.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps jobs and batches across instances', async () => {
+    const store = new FileJobStore(path);
+    const manager = new JobManager(store);
+    const jobId = manager.createJob({ temperature: 0.5, seed: 3 });
+    manager.updateJob(jobId, { status: 'complete', imageUrl: 'data:image/png;base64,abc' });
+    const batchId = manager.createBatch([jobId], {
+      prompt: 'a red fox',
+      imageCount: 1,
+      concurrency: 'auto',
+      temperature: 0.5,
+    });
+    await store.flush();
+
+    const reloaded = new JobManager(new FileJobStore(path));
+    expect(reloaded.getJob(jobId)).toMatchObject({
+      status: 'complete',
+      params: { temperature: 0.5, seed: 3 },
+      imageUrl: 'data:image/png;base64,abc',
+    });
+    expect(reloaded.getBatch(batchId)).toMatchObject({
+      jobIds: [jobId],
+      concurrency: 'auto',
+      request: { prompt: 'a red fox' },
+    });
+  });
+
+  it('writes changes without an explicit flush', async () => {
+    const manager = new JobManager(new FileJobStore(path));
+    const jobId = manager.createJob();
+
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    expect(new FileJobStore(path).getJob(jobId)?.status).toBe('pending');
+  });
+
+  it('persists cleanup', async () => {
+    const store = new FileJobStore(path);
+    const manager = new JobManager(store);
+    manager.createJob();
+    manager.cleanup(-1000);
+    await store.flush();
+
+    expect(new FileJobStore(path).listJobs()).toEqual([]);
+  });
+
+  it('keeps input images out of the main file', async () => {
+    const image = `data:image/png;base64,${'A'.repeat(1000)}`;
+    const store = new FileJobStore(path);
+    const manager = new JobManager(store);
+    const jobId = manager.createJob();
+    const batchId = manager.createBatch([jobId], {
+      prompt: 'a red fox',
+      imageCount: 1,
+      concurrency: 1,
+      temperature: 1.0,
+      images: [image],
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    await store.flush();
+
+    expect(readFileSync(path, 'utf8')).not.toContain(image);
+    expect(new FileJobStore(path).getBatch(batchId)?.request).toMatchObject({ prompt: 'a red fox', images: [image] });
+  });
+
+  it('drops the request of a batch whose images were never written', async () => {
+    const store = new FileJobStore(path);
+    const manager = new JobManager(store);
+    const batchId = manager.createBatch([manager.createJob()], {
+      prompt: 'a red fox',
+      imageCount: 1,
+      concurrency: 1,
+      temperature: 1.0,
+      images: ['data:image/png;base64,abc'],
+    });
+
+    await store.flush(); // before the images are on disk
+
+    expect(new FileJobStore(path).getBatch(batchId)?.request).toBeUndefined();
+    await new Promise((resolve) => setTimeout(resolve, 300)); // let the images write finish
+  });
+
+  it('starts empty when the file is corrupt', () => {
+    writeFileSync(path, '{"jobs": [');
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const store = new FileJobStore(path);
+
+    expect(store.listJobs()).toEqual([]);
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('starting empty'), expect.any(SyntaxError));
+    errorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,210 @@
+// lib/jobStore.ts
+import { existsSync, readFileSync } from 'fs';
+import { mkdir, rename, rm, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { Batch, Job } from './types';
+
+/**
+ * Where JobManager keeps jobs and batches. The API is synchronous so the
+ * job lifecycle code stays the same whichever store is configured.
+ */
+export interface JobStore {
+  getJob(id: string): Job | undefined;
+  saveJob(job: Job): void;
+  deleteJob(id: string): void;
+  listJobs(): Job[];
+  getBatch(id: string): Batch | undefined;
+  saveBatch(batch: Batch): void;
+  deleteBatch(id: string): void;
+  listBatches(): Batch[];
+}
+
+// Lost on restart; the default
+export class MemoryJobStore implements JobStore {
+  protected jobs = new Map<string, Job>();
+  protected batches = new Map<string, Batch>();
+
+  getJob(id: string): Job | undefined {
+    return this.jobs.get(id);
+  }
+
+  saveJob(job: Job): void {
+    this.jobs.set(job.id, job);
+  }
+
+  deleteJob(id: string): void {
+    this.jobs.delete(id);
+  }
+
+  listJobs(): Job[] {
+    return [...this.jobs.values()];
+  }
+
+  getBatch(id: string): Batch | undefined {
+    return this.batches.get(id);
+  }
+
+  saveBatch(batch: Batch): void {
+    this.batches.set(batch.id, batch);
+  }
+
+  deleteBatch(id: string): void {
+    this.batches.delete(id);
+  }
+
+  listBatches(): Batch[] {
+    return [...this.batches.values()];
+  }
+}
+
+interface JobStoreFile {
+  jobs: Job[];
+  batches: Batch[]; // without their requests' input images
+  imageBatches?: string[]; // batches whose input images are in the images directory
+}
+
+const FLUSH_DELAY_MS = 200;
+
+/**
+ * Keeps everything in memory and mirrors it to a JSON file, so jobs and
+ * batches survive a restart. Writes are batched: a burst of updates, such
+ * as a batch finishing, becomes one write, at the cost of losing the last
+ * few hundred milliseconds on a crash. A batch's input images never
+ * change, so they are written once, to `<path>.images/<batchId>.json`,
+ * rather than with every update.
+ */
+export class FileJobStore extends MemoryJobStore {
+  private path: string;
+  private imagesDir: string;
+  private imageBatches = new Set<string>();
+  private flushTimer?: ReturnType<typeof setTimeout>;
+  private flushing: Promise<void> = Promise.resolve();
+
+  constructor(path: string) {
+    super();
+    this.path = path;
+    this.imagesDir = `${path}.images`;
+
+    if (!existsSync(path)) return;
+    try {
+      const data: JobStoreFile = JSON.parse(readFileSync(path, 'utf8'));
+      for (const job of data.jobs) this.jobs.set(job.id, job);
+      for (const batch of data.batches) this.batches.set(batch.id, batch);
+      for (const id of data.imageBatches ?? []) this.loadImages(id);
+    } catch (error) {
+      // A corrupt file shouldn't keep the server from starting
+      console.error(`Failed to read job store ${path}, starting empty:`, error);
+      this.jobs.clear();
+      this.batches.clear();
+      this.imageBatches.clear();
+    }
+  }
+
+  saveJob(job: Job): void {
+    super.saveJob(job);
+    this.scheduleFlush();
+  }
+
+  deleteJob(id: string): void {
+    super.deleteJob(id);
+    this.scheduleFlush();
+  }
+
+  saveBatch(batch: Batch): void {
+    super.saveBatch(batch);
+    if (batch.request?.images?.length && !this.imageBatches.has(batch.id)) {
+      this.saveImages(batch.id, batch.request.images);
+    }
+    this.scheduleFlush();
+  }
+
+  deleteBatch(id: string): void {
+    super.deleteBatch(id);
+    if (this.imageBatches.delete(id)) {
+      rm(this.imagesPath(id), { force: true }).catch((error) => {
+        console.error(`Failed to delete input images of batch ${id}:`, error);
+      });
+    }
+    this.scheduleFlush();
+  }
+
+  // Writes pending changes now, after any write already under way; the
+  // temp file and rename keep the file whole
+  flush(): Promise<void> {
+    clearTimeout(this.flushTimer);
+    this.flushTimer = undefined;
+
+    const write = this.flushing.then(async () => {
+      const data: JobStoreFile = {
+        jobs: this.listJobs(),
+        batches: this.listBatches().map((batch) => this.withoutImages(batch)),
+        imageBatches: [...this.imageBatches],
+      };
+      await mkdir(dirname(this.path), { recursive: true });
+      await writeFile(`${this.path}.tmp`, JSON.stringify(data));
+      await rename(`${this.path}.tmp`, this.path);
+    });
+    this.flushing = write.catch(() => {});
+    return write;
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flush().catch((error) => {
+        console.error('Failed to write job store:', error);
+      });
+    }, FLUSH_DELAY_MS);
+    this.flushTimer.unref?.();
+  }
+
+  // Until its images are on disk, a batch is saved without its request, so
+  // a restart cancels its jobs rather than running them without images
+  private withoutImages(batch: Batch): Batch {
+    if (!batch.request?.images?.length) return batch;
+    const request = { ...batch.request, images: undefined };
+    return { ...batch, request: this.imageBatches.has(batch.id) ? request : undefined };
+  }
+
+  private saveImages(id: string, images: string[]): void {
+    const path = this.imagesPath(id);
+    mkdir(this.imagesDir, { recursive: true })
+      .then(() => writeFile(`${path}.tmp`, JSON.stringify(images)))
+      .then(() => rename(`${path}.tmp`, path))
+      .then(async () => {
+        if (!this.batches.has(id)) {
+          await rm(path, { force: true }); // deleted while it was being written
+          return;
+        }
+        this.imageBatches.add(id);
+        this.scheduleFlush();
+      })
+      .catch((error) => {
+        console.error(`Failed to write input images of batch ${id}:`, error);
+      });
+  }
+
+  // Startup only, like the rest of the constructor
+  private loadImages(id: string): void {
+    const batch = this.batches.get(id);
+    if (!batch?.request) return;
+    try {
+      const images: string[] = JSON.parse(readFileSync(this.imagesPath(id), 'utf8'));
+      batch.request = { ...batch.request, images };
+      this.imageBatches.add(id);
+    } catch (error) {
+      console.error(`Failed to read input images of batch ${id}:`, error);
+      batch.request = undefined;
+    }
+  }
+
+  private imagesPath(id: string): string {
+    return join(this.imagesDir, `${id}.json`);
+  }
+}
+
+// JOB_STORE_PATH names a JSON file to persist jobs in; otherwise memory
+export function createJobStoreFromEnv(): JobStore {
+  const path = process.env.JOB_STORE_PATH;
+  return path ? new FileJobStore(path) : new MemoryJobStore();
+}
@@ -0,0 +1,140 @@
+// lib/keyPool.test.ts
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { ApiError } from '@google/genai';
+import { KeyPool, getGeminiKeyPool, loadKeyPoolConfig } from './keyPool';
+
+function rateLimitError(): ApiError {
+  return new ApiError({
+    status: 429,
+    message: JSON.stringify({ error: { code: 429, message: 'Quota exceeded', status: 'RESOURCE_EXHAUSTED' } }),
+  });
+}
+
+describe('KeyPool', () => {
+  let now: number;
+  const clock = () => now;
+
+  beforeEach(() => {
+    now = Date.parse('2026-03-10T12:00:00-07:00');
+  });
+
+  it('rotates through keys round-robin', () => {
+    const pool = new KeyPool(['a', 'b', 'c'], { now: clock });
+    expect([pool.acquire(), pool.acquire(), pool.acquire(), pool.acquire()]).toEqual(['a', 'b', 'c', 'a']);
+  });
+
+  it('prefers the least-used key', () => {
+    const pool = new KeyPool(['a', 'b'], { strategy: 'least-used', now: clock });
+    pool.acquire();
+    pool.acquire();
+    pool.acquire();
+
+    const counts = pool.snapshot().keys.map((key) => key.requestsToday);
+    expect(counts.sort()).toEqual([1, 2]);
+  });
+
+  it('rests a rate-limited key until its cooldown ends', () => {
+    const pool = new KeyPool(['a', 'b'], { cooldownMs: 30_000, now: clock });
+    pool.reportRateLimited('a');
+
+    expect([pool.acquire(), pool.acquire()]).toEqual(['b', 'b']);
+    now += 30_000;
+    expect(pool.acquire()).toBe('a');
+  });
+
+  it('moves on to the next key when a call is rate limited', async () => {
+    const pool = new KeyPool(['a', 'b'], { now: clock });
+    const used: string[] = [];
+
+    const result = await pool.run(async (key) => {
+      used.push(key);
+      if (key === 'a') throw rateLimitError();
+      return 'ok';
+    });
+
+    expect(result).toBe('ok');
+    expect(used).toEqual(['a', 'b']);
+    expect(pool.snapshot().keys[0]).toMatchObject({ available: false, rateLimitedCount: 1 });
+  });
+
+  it('reports how long to wait when every key is exhausted', () => {
+    const pool = new KeyPool(['a', 'b'], { cooldownMs: 10_000, now: clock });
+    pool.reportRateLimited('a');
+    now += 4_000;
+    pool.reportRateLimited('b');
+
+    let thrown: unknown;
+    try {
+      pool.acquire();
+    } catch (error) {
+      thrown = error;
+    }
+    expect(thrown).toMatchObject({ code: 'rate_limited', retryAfterMs: 6_000 });
+  });
+
+  it('resets daily counters at midnight Pacific', () => {
+    const pool = new KeyPool(['a'], { dailyLimit: 2, now: clock });
+    pool.acquire();
+    pool.acquire();
+    expect(() => pool.acquire()).toThrow();
+
+    // 11:59pm Pacific is still the same quota day
+    now = Date.parse('2026-03-10T23:59:00-07:00');
+    expect(() => pool.acquire()).toThrow();
+
+    now = Date.parse('2026-03-11T00:00:01-07:00');
+    expect(pool.acquire()).toBe('a');
+    expect(pool.snapshot().keys[0].requestsToday).toBe(1);
+  });
+
+  it('reports the requests left today across keys', () => {
+    expect(new KeyPool(['a'], { now: clock }).quota().remainingToday).toBeUndefined();
+
+    const pool = new KeyPool(['a', 'b'], { dailyLimit: 3, now: clock });
+    pool.acquire();
+    pool.acquire();
+    pool.acquire();
+    expect(pool.quota()).toEqual({
+      remainingToday: 3,
+      resetsAt: Date.parse('2026-03-11T00:00:00-07:00'),
+    });
+  });
+
+  it('masks keys in snapshots', () => {
+    const pool = new KeyPool(['AIzaSyExampleKey1234'], { now: clock });
+    expect(pool.snapshot().keys[0].key).toBe('AIza…1234');
+    expect(pool.snapshot().resetsAt).toBe(Date.parse('2026-03-11T00:00:00-07:00'));
+  });
+});
+
+describe('loadKeyPoolConfig', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('reads comma-separated keys and pool settings', () => {
+    process.env.GEMINI_API_KEYS = 'one, two,,three';
+    process.env.GEMINI_KEY_STRATEGY = 'least-used';
+    process.env.GEMINI_KEY_DAILY_LIMIT = '100';
+
+    expect(loadKeyPoolConfig()).toMatchObject({
+      keys: ['one', 'two', 'three'],
+      strategy: 'least-used',
+      dailyLimit: 100,
+    });
+  });
+
+  it('falls back to the single GEMINI_API_KEY', () => {
+    delete process.env.GEMINI_API_KEYS;
+    process.env.GEMINI_API_KEY = 'solo';
+
+    expect(loadKeyPoolConfig().keys).toEqual(['solo']);
+  });
+
+  it('keeps the same pool while the configuration is unchanged', () => {
+    process.env.GEMINI_API_KEYS = 'one,two';
+    expect(getGeminiKeyPool()).toBe(getGeminiKeyPool());
+  });
+});
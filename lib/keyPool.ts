@@ -0,0 +1,273 @@
+// lib/keyPool.ts
+import { readFileSync } from 'fs';
+import { RateLimitedError, classifyError } from './errors';
+import { serverState } from './serverState';
+import { KeyPoolResponse, KeySelectionStrategy, KeyStatus, QuotaStatus } from './types';
+
+export interface KeyPoolOptions {
+  strategy?: KeySelectionStrategy;
+  cooldownMs?: number; // how long a key rests after a 429
+  dailyLimit?: number; // requests per key per day, like Gemini's RPD
+  now?: () => number;
+}
+
+interface KeyState {
+  key: string;
+  day: string; // Pacific date the counters belong to
+  requestsToday: number;
+  totalRequests: number;
+  rateLimitedCount: number;
+  cooldownUntil?: number;
+  lastUsedAt?: number;
+}
+
+const DEFAULT_COOLDOWN_MS = 60 * 1000;
+
+// Gemini's requests-per-day quota resets at midnight Pacific time
+const PACIFIC_TIME_ZONE = 'America/Los_Angeles';
+
+function pacificDate(now: number): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone: PACIFIC_TIME_ZONE }).format(now);
+}
+
+// Next midnight Pacific; can be an hour off on the days clocks change
+function nextPacificMidnight(now: number): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: PACIFIC_TIME_ZONE,
+    hourCycle: 'h23',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(now);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  const sinceMidnight =
+    ((part('hour') * 60 + part('minute')) * 60 + part('second')) * 1000 + (now % 1000);
+  return now - sinceMidnight + 24 * 60 * 60 * 1000;
+}
+
+// AIzaSyD...x7Qk -> AIza…x7Qk
+function maskKey(key: string): string {
+  return key.length <= 8 ? '…' : `${key.slice(0, 4)}…${key.slice(-4)}`;
+}
+
+/**
+ * Spreads requests over several API keys. Keys that hit a 429 rest for a
+ * cooldown, keys that used up their daily quota rest until the Pacific
+ * midnight reset, and the rest are picked round-robin or least-used first.
+ */
+export class KeyPool {
+  readonly strategy: KeySelectionStrategy;
+  private states: KeyState[];
+  private cooldownMs: number;
+  private dailyLimit?: number;
+  private now: () => number;
+  private nextIndex = 0;
+
+  constructor(keys: string[], options: KeyPoolOptions = {}) {
+    this.strategy = options.strategy ?? 'round-robin';
+    this.cooldownMs = options.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+    this.dailyLimit = options.dailyLimit;
+    this.now = options.now ?? Date.now;
+
+    const today = pacificDate(this.now());
+    this.states = [...new Set(keys)].map((key) => ({
+      key,
+      day: today,
+      requestsToday: 0,
+      totalRequests: 0,
+      rateLimitedCount: 0,
+    }));
+  }
+
+  get size(): number {
+    return this.states.length;
+  }
+
+  /**
+   * Picks a key for the next request and counts the request against it.
+   * Throws RateLimitedError, with the wait until a key frees up, when every
+   * key is cooling down or out of daily quota.
+   */
+  acquire(): string {
+    const now = this.now();
+    this.rollOver(now);
+
+    const available = this.states.filter((state) => this.isAvailable(state, now));
+    if (available.length === 0) {
+      throw new RateLimitedError('All API keys are rate limited or out of daily quota', {
+        retryAfterMs: this.nextAvailableAt(now) - now,
+      });
+    }
+
+    let state: KeyState;
+    if (this.strategy === 'least-used') {
+      state = available.reduce((best, candidate) =>
+        candidate.requestsToday < best.requestsToday ? candidate : best
+      );
+    } else {
+      // Walk on from the last pick, skipping resting keys
+      let index = this.nextIndex;
+      while (!available.includes(this.states[index % this.states.length])) {
+        index++;
+      }
+      state = this.states[index % this.states.length];
+      this.nextIndex = (index + 1) % this.states.length;
+    }
+
+    state.requestsToday++;
+    state.totalRequests++;
+    state.lastUsedAt = now;
+    return state.key;
+  }
+
+  reportRateLimited(key: string, retryAfterMs?: number): void {
+    const state = this.states.find((s) => s.key === key);
+    if (state) {
+      state.rateLimitedCount++;
+      state.cooldownUntil = this.now() + Math.max(this.cooldownMs, retryAfterMs ?? 0);
+    }
+  }
+
+  /**
+   * Runs `fn` with a key from the pool. A 429 puts that key on cooldown and
+   * the call moves straight on to the next available key, so one exhausted
+   * key doesn't stall generation while others have quota left.
+   */
+  async run<T>(fn: (key: string) => Promise<T>): Promise<T> {
+    for (let tried = 1; ; tried++) {
+      const key = this.acquire();
+      try {
+        return await fn(key);
+      } catch (error) {
+        const generationError = classifyError(error);
+        if (generationError.code !== 'rate_limited') {
+          throw generationError;
+        }
+        this.reportRateLimited(key, generationError.retryAfterMs);
+        if (tried >= this.states.length || !this.hasAvailableKey()) {
+          throw generationError;
+        }
+      }
+    }
+  }
+
+  // Requests the pool can still make today across all keys
+  quota(): QuotaStatus {
+    const now = this.now();
+    this.rollOver(now);
+
+    const dailyLimit = this.dailyLimit;
+    return {
+      remainingToday:
+        dailyLimit === undefined
+          ? undefined
+          : this.states.reduce((sum, state) => sum + Math.max(0, dailyLimit - state.requestsToday), 0),
+      resetsAt: nextPacificMidnight(now),
+    };
+  }
+
+  snapshot(): KeyPoolResponse {
+    const now = this.now();
+    this.rollOver(now);
+
+    const keys: KeyStatus[] = this.states.map((state) => ({
+      key: maskKey(state.key),
+      available: this.isAvailable(state, now),
+      requestsToday: state.requestsToday,
+      dailyLimit: this.dailyLimit,
+      totalRequests: state.totalRequests,
+      rateLimitedCount: state.rateLimitedCount,
+      cooldownUntil: state.cooldownUntil && state.cooldownUntil > now ? state.cooldownUntil : undefined,
+      lastUsedAt: state.lastUsedAt,
+    }));
+
+    return { strategy: this.strategy, resetsAt: nextPacificMidnight(now), keys };
+  }
+
+  private hasAvailableKey(): boolean {
+    const now = this.now();
+    return this.states.some((state) => this.isAvailable(state, now));
+  }
+
+  private isAvailable(state: KeyState, now: number): boolean {
+    if (state.cooldownUntil && state.cooldownUntil > now) return false;
+    return this.dailyLimit === undefined || state.requestsToday < this.dailyLimit;
+  }
+
+  private nextAvailableAt(now: number): number {
+    const cooldownEnds = this.states
+      .filter((state) => this.dailyLimit === undefined || state.requestsToday < this.dailyLimit)
+      .map((state) => state.cooldownUntil ?? now);
+    return cooldownEnds.length > 0 ? Math.min(...cooldownEnds) : nextPacificMidnight(now);
+  }
+
+  private rollOver(now: number): void {
+    const today = pacificDate(now);
+    for (const state of this.states) {
+      if (state.day !== today) {
+        state.day = today;
+        state.requestsToday = 0;
+      }
+    }
+  }
+}
+
+interface KeyPoolConfig extends Omit<KeyPoolOptions, 'now'> {
+  keys: string[];
+}
+
+/**
+ * Keys come from GEMINI_API_KEYS_FILE (a JSON array of keys, or an object
+ * with `keys` plus pool options), else the comma-separated GEMINI_API_KEYS,
+ * else the single GEMINI_API_KEY. GEMINI_KEY_STRATEGY, GEMINI_KEY_COOLDOWN_MS
+ * and GEMINI_KEY_DAILY_LIMIT tune the pool.
+ */
+export function loadKeyPoolConfig(): KeyPoolConfig {
+  const { GEMINI_API_KEYS_FILE, GEMINI_API_KEYS, GEMINI_API_KEY } = process.env;
+  const strategy = process.env.GEMINI_KEY_STRATEGY as KeySelectionStrategy | undefined;
+  const cooldownMs = process.env.GEMINI_KEY_COOLDOWN_MS;
+  const dailyLimit = process.env.GEMINI_KEY_DAILY_LIMIT;
+
+  const config: KeyPoolConfig = {
+    keys: [],
+    strategy,
+    cooldownMs: cooldownMs !== undefined ? Number(cooldownMs) : undefined,
+    dailyLimit: dailyLimit !== undefined ? Number(dailyLimit) : undefined,
+  };
+
+  if (GEMINI_API_KEYS_FILE) {
+    const file: string[] | KeyPoolConfig = JSON.parse(readFileSync(GEMINI_API_KEYS_FILE, 'utf8'));
+    Object.assign(config, Array.isArray(file) ? { keys: file } : file);
+  } else if (GEMINI_API_KEYS) {
+    config.keys = GEMINI_API_KEYS.split(',');
+  } else if (GEMINI_API_KEY) {
+    config.keys = [GEMINI_API_KEY];
+  }
+
+  config.keys = config.keys.map((key) => key.trim()).filter(Boolean);
+
+  if (config.strategy && !['round-robin', 'least-used'].includes(config.strategy)) {
+    throw new Error('GEMINI_KEY_STRATEGY must be round-robin or least-used');
+  }
+
+  return config;
+}
+
+// Rate limit group of every provider that draws keys from the Gemini pool
+export const GEMINI_KEY_POOL_GROUP = 'gemini-key-pool';
+
+const cachedPool = serverState<{ source?: string; pool?: KeyPool }>('geminiKeyPool', () => ({}));
+
+/**
+ * The pool shared by every client that uses Gemini API keys. It is rebuilt
+ * only when the key configuration changes, so counters survive otherwise.
+ */
+export function getGeminiKeyPool(): KeyPool {
+  const config = loadKeyPoolConfig();
+  const source = JSON.stringify(config);
+  if (!cachedPool.pool || cachedPool.source !== source) {
+    cachedPool.source = source;
+    cachedPool.pool = new KeyPool(config.keys, config);
+  }
+  return cachedPool.pool;
+}
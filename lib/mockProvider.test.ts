@@ -0,0 +1,63 @@
+// lib/mockProvider.test.ts
+import { describe, it, expect } from '@jest/globals';
+import { MockProvider } from './mockProvider';
+
+function decodePng(dataUrl: string): Buffer {
+  expect(dataUrl.startsWith('data:image/png;base64,')).toBe(true);
+  return Buffer.from(dataUrl.split(',')[1], 'base64');
+}
+
+describe('MockProvider', () => {
+  const provider = new MockProvider({ latencyMs: 0 });
+
+  it('renders a valid PNG', async () => {
+    const png = decodePng((await provider.generate('a red fox')).imageUrl);
+
+    expect(png.subarray(1, 4).toString('ascii')).toBe('PNG');
+    expect(png.readUInt32BE(16)).toBe(256); // width
+    expect(png.readUInt32BE(20)).toBe(256); // height
+  });
+
+  it('is deterministic for the same prompt', async () => {
+    const first = (await provider.generate('a red fox')).imageUrl;
+    const second = (await provider.generate('a red fox')).imageUrl;
+    const other = (await provider.generate('a blue whale')).imageUrl;
+
+    expect(first).toBe(second);
+    expect(first).not.toBe(other);
+  });
+
+  it('varies the image with the seed', async () => {
+    const first = (await provider.generate('a red fox', { seed: 1 })).imageUrl;
+    const second = (await provider.generate('a red fox', { seed: 2 })).imageUrl;
+
+    expect(first).not.toBe(second);
+    expect((await provider.generate('a red fox', { seed: 1 })).imageUrl).toBe(first);
+  });
+
+  it('adds commentary when text is requested', async () => {
+    const result = await provider.generate('a red fox', { includeText: true });
+
+    expect(result.text).toMatch(/^Mock render \(256x256\)/);
+    expect((await provider.generate('a red fox')).text).toBeUndefined();
+  });
+
+  it('honours the aspect ratio', async () => {
+    const png = decodePng((await provider.generate('a red fox', { aspectRatio: '16:9' })).imageUrl);
+
+    expect(png.readUInt32BE(16)).toBe(256);
+    expect(png.readUInt32BE(20)).toBe(144);
+  });
+
+  it('injects failures from prompt directives', async () => {
+    await expect(provider.generate('a red fox [mock:429]')).rejects.toMatchObject({ status: 429 });
+    await expect(provider.generate('a red fox [mock:400]')).rejects.toMatchObject({ status: 400 });
+    await expect(provider.generate('a red fox [mock:safety]')).rejects.toMatchObject({ code: 'safety_blocked' });
+  });
+
+  it('injects configured failures on every call', async () => {
+    const failing = new MockProvider({ latencyMs: 0, failure: '429' });
+
+    await expect(failing.generate('a red fox')).rejects.toThrow('RESOURCE_EXHAUSTED');
+  });
+});
@@ -0,0 +1,249 @@
+// lib/mockProvider.ts
+import { ApiError } from '@google/genai';
+import { createHash } from 'crypto';
+import { deflateSync } from 'zlib';
+import { ASPECT_RATIOS, DEFAULT_ASPECT_RATIO } from './aspectRatios';
+import { SafetyBlockedError } from './errors';
+import { InputImage } from './imageData';
+import {
+  ConversationMessage,
+  GenerateImageOptions,
+  GeneratedImage,
+  ImageProvider,
+  ProviderCapabilities,
+  ProviderLimits,
+} from './provider';
+
+export type MockFailure = '429' | '400' | 'safety';
+
+export interface MockProviderOptions {
+  latencyMs?: number;
+  failure?: MockFailure; // fail every call with this failure
+  size?: number; // length of the longest image side in pixels
+}
+
+const MOCK_FAILURES: MockFailure[] = ['429', '400', 'safety'];
+
+// Prompts can request a failure inline, e.g. "a red fox [mock:429]"
+const FAILURE_DIRECTIVE = /\[mock:(429|400|safety)\]/i;
+
+/**
+ * Offline provider that renders a deterministic PNG from the prompt hash.
+ * Enable with MOCK_PROVIDER=true; tune with MOCK_PROVIDER_LATENCY_MS and
+ * MOCK_PROVIDER_FAILURE (429, 400 or safety).
+ */
+export class MockProvider implements ImageProvider {
+  readonly name = 'mock';
+  readonly capabilities: ProviderCapabilities = {
+    edit: true,
+    reference: true,
+    compose: true,
+    conversation: true,
+    aspectRatios: ASPECT_RATIOS,
+  };
+  readonly limits: ProviderLimits = {
+    maxPromptLength: 10000,
+    maxInputImages: 3,
+  };
+
+  private latencyMs: number;
+  private failure?: MockFailure;
+  private size: number;
+
+  constructor(options: MockProviderOptions = {}) {
+    this.latencyMs = options.latencyMs ?? 1000;
+    this.failure = options.failure;
+    this.size = options.size ?? 256;
+  }
+
+  async generate(prompt: string, options: GenerateImageOptions = {}): Promise<GeneratedImage> {
+    return this.render(prompt, options);
+  }
+
+  async edit(prompt: string, images: InputImage[], options: GenerateImageOptions = {}): Promise<GeneratedImage> {
+    // Fold the input images and mode into the hash so edits differ from plain generations
+    const inputs = images.map((image) => image.data).join('\n');
+    return this.render(`${prompt}\n${options.mode ?? 'edit'}\n${inputs}`, options);
+  }
+
+  async converse(messages: ConversationMessage[], options: GenerateImageOptions = {}): Promise<GeneratedImage> {
+    // Hash the whole history so each branch of a conversation renders differently
+    const history = messages
+      .map((message) => `${message.role}:${message.text ?? ''}:${message.images.map((image) => image.data).join(',')}`)
+      .join('\n');
+    return this.render(history, options);
+  }
+
+  private async render(input: string, options: GenerateImageOptions): Promise<GeneratedImage> {
+    const { aspectRatio = DEFAULT_ASPECT_RATIO, seed, includeText = false } = options;
+
+    if (this.latencyMs > 0) {
+      await delay(this.latencyMs, options.signal);
+    }
+
+    const directive = input.match(FAILURE_DIRECTIVE);
+    const failure = (directive?.[1].toLowerCase() as MockFailure | undefined) ?? this.failure;
+    if (failure) {
+      throw createMockFailure(failure);
+    }
+
+    const { width, height } = dimensionsFor(aspectRatio, this.size);
+    const hash = createHash('sha256').update(`${input}\n${seed ?? ''}`).digest();
+    const png = renderPng(width, height, hash);
+
+    return {
+      imageUrl: `data:image/png;base64,${png.toString('base64')}`,
+      text: includeText
+        ? `Mock render (${width}x${height}) from hash ${hash.subarray(0, 4).toString('hex')}.`
+        : undefined,
+      // Roughly what Gemini reports: ~4 characters per token, 1290 tokens per image
+      usage: { promptTokens: Math.ceil(input.length / 4), outputTokens: 1290 },
+    };
+  }
+}
+
+// Simulated latency that stops early, like a real request, when aborted
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+export function createMockProviderFromEnv(): MockProvider {
+  const latency = process.env.MOCK_PROVIDER_LATENCY_MS;
+  const failure = process.env.MOCK_PROVIDER_FAILURE as MockFailure | undefined;
+
+  if (failure && !MOCK_FAILURES.includes(failure)) {
+    throw new Error(`MOCK_PROVIDER_FAILURE must be one of: ${MOCK_FAILURES.join(', ')}`);
+  }
+
+  return new MockProvider({
+    latencyMs: latency !== undefined ? Number(latency) : undefined,
+    failure,
+  });
+}
+
+// Mirror the shape of real SDK errors so callers handle both the same way
+function createMockFailure(failure: MockFailure): Error {
+  switch (failure) {
+    case '429':
+      return new ApiError({
+        status: 429,
+        message: JSON.stringify({
+          error: {
+            code: 429,
+            message: 'You exceeded your current quota, please check your plan and billing details',
+            status: 'RESOURCE_EXHAUSTED',
+            details: [
+              {
+                '@type': 'type.googleapis.com/google.rpc.RetryInfo',
+                retryDelay: '2s',
+              },
+            ],
+          },
+        }),
+      });
+    case '400':
+      return new ApiError({
+        status: 400,
+        message: JSON.stringify({
+          error: {
+            code: 400,
+            message: 'Request contains an invalid argument.',
+            status: 'INVALID_ARGUMENT',
+          },
+        }),
+      });
+    case 'safety':
+      return new SafetyBlockedError(
+        'Image blocked (IMAGE_SAFETY): HARM_CATEGORY_DANGEROUS_CONTENT rated MEDIUM',
+        {
+          safety: {
+            finishReason: 'IMAGE_SAFETY',
+            ratings: [
+              { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', probability: 'MEDIUM', blocked: true },
+              { category: 'HARM_CATEGORY_HARASSMENT', probability: 'NEGLIGIBLE', blocked: false },
+            ],
+          },
+        }
+      );
+  }
+}
+
+function dimensionsFor(aspectRatio: string, size: number): { width: number; height: number } {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  if (!w || !h) {
+    return { width: size, height: size };
+  }
+  return w >= h
+    ? { width: size, height: Math.max(1, Math.round((size * h) / w)) }
+    : { width: Math.max(1, Math.round((size * w) / h)), height: size };
+}
+
+// Diagonal gradient between two hash-derived colours with hash-derived stripes
+function renderPng(width: number, height: number, hash: Buffer): Buffer {
+  const from = [hash[0], hash[1], hash[2]];
+  const to = [hash[3], hash[4], hash[5]];
+  const stripe = 8 + (hash[6] % 24);
+
+  const stride = width * 3 + 1;
+  const raw = Buffer.alloc(stride * height);
+
+  for (let y = 0; y < height; y++) {
+    raw[y * stride] = 0; // filter type: none
+    for (let x = 0; x < width; x++) {
+      const t = (x + y) / (width + height);
+      const shade = Math.floor((x + y * 2) / stripe) % 2 === 0 ? 1 : 0.85;
+      const offset = y * stride + 1 + x * 3;
+      for (let c = 0; c < 3; c++) {
+        raw[offset + c] = Math.round((from[c] + (to[c] - from[c]) * t) * shade);
+      }
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // colour type: truecolour RGB
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length, 0);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body), 0);
+  return Buffer.concat([length, body, crc]);
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
@@ -0,0 +1,40 @@
+// lib/modeTemplates.test.ts
+import { describe, it, expect, afterEach, jest } from '@jest/globals';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+describe('mode templates', () => {
+  afterEach(() => {
+    delete process.env.MODE_TEMPLATES_PATH;
+    jest.resetModules();
+  });
+
+  it('renders the prompt into the instruction', async () => {
+    const { getModeTemplate, renderInstruction } = await import('./modeTemplates');
+
+    expect(renderInstruction(getModeTemplate('edit'), 'add a hat')).toBe('Edit this image: add a hat');
+  });
+
+  it('keeps dollar signs in the prompt as written', async () => {
+    const { getModeTemplate, renderInstruction } = await import('./modeTemplates');
+
+    expect(renderInstruction(getModeTemplate('edit'), "price $& tag, $$5, $' and $`")).toBe(
+      "Edit this image: price $& tag, $$5, $' and $`"
+    );
+  });
+
+  it('applies overrides from MODE_TEMPLATES_PATH', async () => {
+    const path = join(mkdtempSync(join(tmpdir(), 'templates-')), 'templates.json');
+    writeFileSync(path, JSON.stringify({ reference: { instruction: 'In this style: {prompt}' } }));
+    process.env.MODE_TEMPLATES_PATH = path;
+
+    const { getModeTemplate, DEFAULT_MODE_TEMPLATES } = await import('./modeTemplates');
+
+    expect(getModeTemplate('reference').instruction).toBe('In this style: {prompt}');
+    expect(getModeTemplate('reference').systemInstruction).toBe(
+      DEFAULT_MODE_TEMPLATES.reference.systemInstruction
+    );
+    expect(getModeTemplate('edit')).toEqual(DEFAULT_MODE_TEMPLATES.edit);
+  });
+});
@@ -0,0 +1,69 @@
+// lib/modeTemplates.ts
+import { readFileSync } from 'fs';
+import { GenerationMode } from './types';
+
+export interface ModeTemplate {
+  systemInstruction: string;
+  instruction: string; // `{prompt}` is replaced with the user's prompt
+  imageFirst: boolean; // send the image parts before the text part
+}
+
+export const DEFAULT_MODE_TEMPLATES: Record<GenerationMode, ModeTemplate> = {
+  edit: {
+    systemInstruction:
+      'You are a precise image editor. Apply only the requested change to the provided image. ' +
+      'Preserve the original composition, subjects, framing, lighting and style everywhere else.',
+    instruction: 'Edit this image: {prompt}',
+    imageFirst: true,
+  },
+  reference: {
+    systemInstruction:
+      'You are an illustrator. Treat the provided image purely as a reference for style, palette, ' +
+      'texture and mood. Create a new, original composition; do not copy its layout or subjects ' +
+      'unless the prompt asks for them.',
+    instruction: '{prompt}\n\nUse the attached image as a style reference only.',
+    imageFirst: false,
+  },
+  compose: {
+    systemInstruction:
+      'You are a compositing artist. Combine subjects from the provided images into one coherent ' +
+      'new image with consistent lighting, perspective and style. Keep each subject recognisable.',
+    instruction: 'Combine the subjects of the attached images into a single scene: {prompt}',
+    imageFirst: true,
+  },
+};
+
+let cachedTemplates: Record<GenerationMode, ModeTemplate> | null = null;
+
+/**
+ * Templates can be overridden per mode with a JSON file named by
+ * MODE_TEMPLATES_PATH, e.g. `{ "edit": { "instruction": "..." } }`.
+ */
+export function loadModeTemplates(): Record<GenerationMode, ModeTemplate> {
+  if (cachedTemplates) {
+    return cachedTemplates;
+  }
+
+  const templates = { ...DEFAULT_MODE_TEMPLATES };
+  const path = process.env.MODE_TEMPLATES_PATH;
+  if (path) {
+    const overrides: Partial<Record<GenerationMode, Partial<ModeTemplate>>> = JSON.parse(
+      readFileSync(path, 'utf8')
+    );
+    for (const mode of Object.keys(templates) as GenerationMode[]) {
+      templates[mode] = { ...templates[mode], ...overrides[mode] };
+    }
+  }
+
+  cachedTemplates = templates;
+  return templates;
+}
+
+export function getModeTemplate(mode: GenerationMode): ModeTemplate {
+  return loadModeTemplates()[mode];
+}
+
+export function renderInstruction(template: ModeTemplate, prompt: string): string {
+  // A replacer function keeps `$&` and friends in the prompt literal
+  return template.instruction.replace(/\{prompt\}/g, () => prompt);
+}
@@ -0,0 +1,33 @@
+// lib/models.test.ts
+import { describe, it, expect } from '@jest/globals';
+import { getDefaultModel, getModel, listModels, registerModel } from './models';
+
+describe('model registry', () => {
+  it('describes the built-in Gemini models', () => {
+    const model = getModel('gemini-2.5-flash-image');
+    expect(model?.provider).toBe('gemini');
+    expect(model?.aspectRatios).toContain('16:9');
+    expect(model?.maxInputImages).toBe(3);
+  });
+
+  it('uses the first model registered for a provider as its default', () => {
+    expect(getDefaultModel('gemini')?.id).toBe('gemini-2.5-flash-image');
+    expect(getDefaultModel('missing')).toBeUndefined();
+  });
+
+  it('lists models by provider', () => {
+    registerModel({
+      id: 'stub-model',
+      label: 'Stub',
+      provider: 'stub',
+      aspectRatios: ['1:1'],
+      maxInputImages: 0,
+      maxPromptLength: 100,
+      costPerImage: 0.01,
+      maxImagesPerRequest: 1,
+    });
+
+    expect(listModels('stub').map((model) => model.id)).toEqual(['stub-model']);
+    expect(listModels().map((model) => model.id)).toContain('stub-model');
+  });
+});
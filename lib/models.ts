@@ -0,0 +1,124 @@
+// lib/models.ts
+import { ASPECT_RATIOS } from './aspectRatios';
+import { IMAGEN_ASPECT_RATIOS, IMAGEN_MAX_IMAGES_PER_REQUEST } from './imagen';
+import { getOpenAIModelLimits } from './openaiImages';
+import { STABLE_DIFFUSION_MAX_IMAGES_PER_REQUEST } from './stableDiffusion';
+import { ModelInfo } from './types';
+
+const models = new Map<string, ModelInfo>();
+
+export function registerModel(model: ModelInfo): void {
+  models.set(model.id, model);
+}
+
+export function getModel(id: string): ModelInfo | undefined {
+  return models.get(id);
+}
+
+export function listModels(provider?: string): ModelInfo[] {
+  const all = [...models.values()];
+  return provider ? all.filter((model) => model.provider === provider) : all;
+}
+
+// A provider's first registered model is the one used when a request names none
+export function getDefaultModel(provider: string): ModelInfo | undefined {
+  return listModels(provider)[0];
+}
+
+// Built-in models. Costs are list prices per output image.
+registerModel({
+  id: 'gemini-2.5-flash-image',
+  label: 'Gemini 2.5 Flash Image',
+  provider: 'gemini',
+  aspectRatios: ASPECT_RATIOS,
+  maxInputImages: 3,
+  maxPromptLength: 10000,
+  costPerImage: 0.039,
+  maxImagesPerRequest: 1,
+});
+
+registerModel({
+  id: 'gemini-2.5-flash-image-preview',
+  label: 'Gemini 2.5 Flash Image (preview)',
+  provider: 'gemini',
+  aspectRatios: ['1:1'],
+  maxInputImages: 3,
+  maxPromptLength: 10000,
+  costPerImage: 0.039,
+  maxImagesPerRequest: 1,
+});
+
+registerModel({
+  id: 'imagen-4.0-generate-001',
+  label: 'Imagen 4',
+  provider: 'imagen',
+  aspectRatios: IMAGEN_ASPECT_RATIOS,
+  maxInputImages: 0,
+  maxPromptLength: 1900,
+  costPerImage: 0.04,
+  maxImagesPerRequest: IMAGEN_MAX_IMAGES_PER_REQUEST,
+});
+
+registerModel({
+  id: 'imagen-4.0-fast-generate-001',
+  label: 'Imagen 4 Fast',
+  provider: 'imagen',
+  aspectRatios: IMAGEN_ASPECT_RATIOS,
+  maxInputImages: 0,
+  maxPromptLength: 1900,
+  costPerImage: 0.02,
+  maxImagesPerRequest: IMAGEN_MAX_IMAGES_PER_REQUEST,
+});
+
+registerModel({
+  id: 'imagen-4.0-ultra-generate-001',
+  label: 'Imagen 4 Ultra',
+  provider: 'imagen',
+  aspectRatios: IMAGEN_ASPECT_RATIOS,
+  maxInputImages: 0,
+  maxPromptLength: 1900,
+  costPerImage: 0.06,
+  maxImagesPerRequest: IMAGEN_MAX_IMAGES_PER_REQUEST,
+});
+
+if (process.env.MOCK_PROVIDER === 'true') {
+  registerModel({
+    id: 'mock',
+    label: 'Mock (offline)',
+    provider: 'mock',
+    aspectRatios: ASPECT_RATIOS,
+    maxInputImages: 3,
+    maxPromptLength: 10000,
+    costPerImage: 0,
+    maxImagesPerRequest: 1,
+  });
+}
+
+if (process.env.STABLE_DIFFUSION_URL) {
+  registerModel({
+    id: 'stable-diffusion',
+    label: 'Stable Diffusion (local)',
+    provider: 'stable-diffusion',
+    aspectRatios: ASPECT_RATIOS,
+    maxInputImages: 1,
+    maxPromptLength: 10000,
+    costPerImage: 0,
+    maxImagesPerRequest: STABLE_DIFFUSION_MAX_IMAGES_PER_REQUEST,
+  });
+}
+
+// Gateways serve whatever model they like, so the id comes from the environment
+if (process.env.OPENAI_IMAGES_BASE_URL || process.env.OPENAI_API_KEY) {
+  const id = process.env.OPENAI_IMAGES_MODEL || 'gpt-image-1';
+  const limits = getOpenAIModelLimits(id);
+  registerModel({
+    id,
+    label: `${id} (OpenAI-compatible)`,
+    provider: 'openai',
+    aspectRatios: Object.keys(limits.sizes),
+    maxInputImages: 1,
+    maxPromptLength: 4000,
+    costPerImage: id === 'gpt-image-1' ? 0.042 : 0, // gpt-image-1 at medium quality
+    maxImagesPerRequest: limits.maxImagesPerRequest,
+  });
+}
@@ -0,0 +1,95 @@
+// lib/openaiImages.test.ts
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { getOpenAIModelLimits, OpenAIImagesClient } from './openaiImages';
+import { StubReply, useStubServer } from './testHelpers';
+
+describe('OpenAIImagesClient', () => {
+  let reply: StubReply;
+  // Minimal OpenAI-compatible images server
+  const stub = useStubServer(() => reply);
+  let baseUrl: string;
+
+  beforeEach(() => {
+    baseUrl = `${stub.url}/v1`;
+    reply = { status: 200, body: { data: [{ b64_json: 'one' }, { b64_json: 'two' }] } };
+  });
+
+  it('requests several images from the generations endpoint', async () => {
+    const client = new OpenAIImagesClient({ baseUrl, apiKey: 'sk-test' });
+
+    const results = await client.generateBatch('a red fox', 2, { aspectRatio: '3:2' });
+
+    expect(results).toEqual([
+      { imageUrl: 'data:image/png;base64,one' },
+      { imageUrl: 'data:image/png;base64,two' },
+    ]);
+    expect(stub.requests[0].path).toBe('/v1/images/generations');
+    expect(stub.requests[0].headers.authorization).toBe('Bearer sk-test');
+    expect(JSON.parse(stub.requests[0].body)).toEqual({
+      model: 'gpt-image-1',
+      prompt: 'a red fox',
+      n: 2,
+      size: '1536x1024',
+    });
+  });
+
+  it('asks other models for base64 output', async () => {
+    const client = new OpenAIImagesClient({ baseUrl, model: 'dall-e-2' });
+
+    await client.generate('a red fox');
+
+    expect(JSON.parse(stub.requests[0].body)).toMatchObject({ model: 'dall-e-2', response_format: 'b64_json' });
+    expect(stub.requests[0].headers.authorization).toBeUndefined();
+  });
+
+  it("uses the model's own sizes", async () => {
+    const client = new OpenAIImagesClient({ baseUrl, model: 'dall-e-3' });
+
+    await client.generate('a red fox', { aspectRatio: '16:9' });
+
+    expect(JSON.parse(stub.requests[0].body)).toMatchObject({ n: 1, size: '1792x1024' });
+    expect(client.capabilities.aspectRatios).toEqual(['1:1', '16:9', '9:16']);
+    expect(getOpenAIModelLimits('dall-e-3').maxImagesPerRequest).toBe(1);
+    expect(getOpenAIModelLimits('some-gateway-model')).toEqual({ sizes: { '1:1': '1024x1024' }, maxImagesPerRequest: 1 });
+  });
+
+  it('does not pass the revised prompt off as model commentary', async () => {
+    reply = { status: 200, body: { data: [{ b64_json: 'one', revised_prompt: 'A photo of a red fox' }] } };
+    const client = new OpenAIImagesClient({ baseUrl, model: 'dall-e-3' });
+
+    expect(await client.generate('a red fox')).toEqual({ imageUrl: 'data:image/png;base64,one' });
+  });
+
+  it('uploads the image to the edits endpoint as multipart form data', async () => {
+    const client = new OpenAIImagesClient({ baseUrl });
+
+    const result = await client.edit('make it night', [{ mimeType: 'image/png', data: Buffer.from('png').toString('base64') }]);
+
+    expect(result.imageUrl).toBe('data:image/png;base64,one');
+    expect(stub.requests[0].path).toBe('/v1/images/edits');
+    expect(stub.requests[0].headers['content-type']).toMatch(/^multipart\/form-data/);
+    expect(stub.requests[0].body).toContain('make it night');
+    expect(stub.requests[0].body).toContain('filename="image.png"');
+  });
+
+  it('maps moderation rejections to safety blocks', async () => {
+    reply = {
+      status: 400,
+      body: { error: { message: 'Your request was rejected by the safety system.', code: 'moderation_blocked' } },
+    };
+    const client = new OpenAIImagesClient({ baseUrl });
+
+    await expect(client.generate('something forbidden')).rejects.toMatchObject({ code: 'safety_blocked' });
+  });
+
+  it('classifies rate limits as retryable', async () => {
+    reply = { status: 429, body: { error: { message: 'Rate limit reached', code: 'rate_limit_exceeded' } } };
+    const client = new OpenAIImagesClient({ baseUrl });
+
+    await expect(client.generate('a red fox')).rejects.toMatchObject({
+      code: 'rate_limited',
+      retryable: true,
+      message: 'Rate limit reached',
+    });
+  });
+});
@@ -0,0 +1,249 @@
+// lib/openaiImages.ts
+import {
+  GenerationError,
+  InvalidArgumentError,
+  NoImageReturnedError,
+  SafetyBlockedError,
+  UpstreamHttpError,
+  classifyError,
+} from './errors';
+import { InputImage } from './imageData';
+import {
+  GenerateImageOptions,
+  GeneratedImage,
+  ImageProvider,
+  ProviderCapabilities,
+  ProviderLimits,
+} from './provider';
+
+export interface OpenAIImagesOptions {
+  baseUrl?: string; // defaults to https://api.openai.com/v1
+  apiKey?: string; // optional for local servers
+  model?: string;
+}
+
+export interface OpenAIModelLimits {
+  sizes: Record<string, string>; // aspect ratio -> the model's size string
+  maxImagesPerRequest: number; // the largest `n` the model accepts
+}
+
+// Each OpenAI model takes its own sizes and `n` range
+const MODEL_LIMITS: Record<string, OpenAIModelLimits> = {
+  'gpt-image-1': {
+    sizes: { '1:1': '1024x1024', '3:2': '1536x1024', '2:3': '1024x1536' },
+    maxImagesPerRequest: 10,
+  },
+  'dall-e-3': {
+    sizes: { '1:1': '1024x1024', '16:9': '1792x1024', '9:16': '1024x1792' },
+    maxImagesPerRequest: 1,
+  },
+  'dall-e-2': {
+    sizes: { '1:1': '1024x1024' },
+    maxImagesPerRequest: 10,
+  },
+};
+
+// Models we know nothing about, as served by gateways and local servers:
+// one square image per request is the common denominator
+const DEFAULT_LIMITS: OpenAIModelLimits = {
+  sizes: { '1:1': '1024x1024' },
+  maxImagesPerRequest: 1,
+};
+
+export function getOpenAIModelLimits(model: string): OpenAIModelLimits {
+  return MODEL_LIMITS[model] ?? (model.startsWith('gpt-image') ? MODEL_LIMITS['gpt-image-1'] : DEFAULT_LIMITS);
+}
+
+// Error codes OpenAI uses when its moderation rejects a prompt or image
+const MODERATION_CODES = ['content_policy_violation', 'moderation_blocked'];
+
+interface OpenAIImagesResponse {
+  data?: Array<{ b64_json?: string; url?: string }>;
+}
+
+/**
+ * Client for the OpenAI images wire format (`/images/generations` and
+ * `/images/edits`), usable against OpenAI itself or any compatible gateway
+ * or local server. Configure with OPENAI_IMAGES_BASE_URL and OPENAI_API_KEY.
+ */
+export class OpenAIImagesClient implements ImageProvider {
+  readonly name = 'openai';
+  readonly capabilities: ProviderCapabilities;
+  readonly limits: ProviderLimits = {
+    maxPromptLength: 4000,
+    maxInputImages: 1,
+  };
+
+  private baseUrl: string;
+  private apiKey?: string;
+  private model: string;
+
+  constructor(options: OpenAIImagesOptions = {}) {
+    this.baseUrl = (options.baseUrl ?? 'https://api.openai.com/v1').replace(/\/+$/, '');
+    this.apiKey = options.apiKey;
+    this.model = options.model ?? 'gpt-image-1';
+    this.capabilities = {
+      edit: true,
+      reference: false,
+      compose: false,
+      conversation: false,
+      aspectRatios: Object.keys(getOpenAIModelLimits(this.model).sizes),
+    };
+  }
+
+  async generate(prompt: string, options: GenerateImageOptions = {}): Promise<GeneratedImage> {
+    const [result] = await this.generateBatch(prompt, 1, options);
+    if (result instanceof GenerationError) {
+      throw result;
+    }
+    return result;
+  }
+
+  async edit(prompt: string, images: InputImage[], options: GenerateImageOptions = {}): Promise<GeneratedImage> {
+    if (options.mode && options.mode !== 'edit') {
+      throw new InvalidArgumentError(`The OpenAI images API does not support ${options.mode} mode`);
+    }
+    if (images.length !== 1) {
+      throw new InvalidArgumentError('The OpenAI images API edits exactly one image');
+    }
+
+    const model = options.model ?? this.model;
+    const [image] = images;
+    const form = new FormData();
+    form.append('model', model);
+    form.append('prompt', prompt);
+    form.append('n', '1');
+    form.append('size', sizeFor(model, options.aspectRatio));
+    form.append(
+      'image',
+      new Blob([Buffer.from(image.data, 'base64')], { type: image.mimeType }),
+      `image.${image.mimeType.split('/')[1]}`
+    );
+    if (!returnsBase64ByDefault(model)) {
+      form.append('response_format', 'b64_json');
+    }
+
+    const [result] = await this.request('edits', form, 1, options.signal);
+    if (result instanceof GenerationError) {
+      throw result;
+    }
+    return result;
+  }
+
+  // The API takes `n` (up to the model's limit), so a group of jobs costs
+  // one request. Temperature, seed, top P and top K have no equivalent here.
+  async generateBatch(
+    prompt: string,
+    count: number,
+    options: GenerateImageOptions = {}
+  ): Promise<Array<GeneratedImage | GenerationError>> {
+    const model = options.model ?? this.model;
+    return this.request(
+      'generations',
+      JSON.stringify({
+        model,
+        prompt,
+        n: count,
+        size: sizeFor(model, options.aspectRatio),
+        ...(returnsBase64ByDefault(model) ? {} : { response_format: 'b64_json' }),
+      }),
+      count,
+      options.signal
+    );
+  }
+
+  private async request(
+    endpoint: 'generations' | 'edits',
+    body: string | FormData,
+    count: number,
+    signal?: AbortSignal
+  ): Promise<Array<GeneratedImage | GenerationError>> {
+    try {
+      const headers: Record<string, string> = {};
+      if (typeof body === 'string') {
+        headers['Content-Type'] = 'application/json';
+      }
+      if (this.apiKey) {
+        headers.Authorization = `Bearer ${this.apiKey}`;
+      }
+
+      const response = await fetch(`${this.baseUrl}/images/${endpoint}`, {
+        method: 'POST',
+        headers,
+        body,
+        signal,
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        if (MODERATION_CODES.some((code) => text.includes(code))) {
+          throw new SafetyBlockedError(`Image blocked by moderation: ${errorMessage(text)}`);
+        }
+        throw new UpstreamHttpError(
+          response.status,
+          `Images ${endpoint} failed with status ${response.status}: ${text}`
+        );
+      }
+
+      const data: OpenAIImagesResponse = await response.json();
+      const results: Array<GeneratedImage | GenerationError> = [];
+      for (const item of (data.data ?? []).slice(0, count)) {
+        results.push(
+          item.b64_json
+            ? { imageUrl: `data:image/png;base64,${item.b64_json}` }
+            : item.url
+              ? await this.download(item.url, signal)
+              : new NoImageReturnedError('No image data found in response')
+        );
+      }
+
+      if (results.length === 0) {
+        throw new NoImageReturnedError(`No image data found in ${endpoint} response`);
+      }
+      while (results.length < count) {
+        results.push(new NoImageReturnedError(`Images API returned ${results.length} of ${count} images`));
+      }
+
+      return results;
+    } catch (error) {
+      throw classifyError(error);
+    }
+  }
+
+  // Some servers ignore response_format and hand back a URL instead
+  private async download(url: string, signal?: AbortSignal): Promise<GeneratedImage> {
+    const response = await fetch(url, { signal });
+    if (!response.ok) {
+      throw new UpstreamHttpError(response.status, `Failed to download generated image: ${response.status}`);
+    }
+    const mimeType = response.headers.get('content-type') || 'image/png';
+    const bytes = Buffer.from(await response.arrayBuffer());
+    return { imageUrl: `data:${mimeType};base64,${bytes.toString('base64')}` };
+  }
+}
+
+export function createOpenAIImagesClientFromEnv(): OpenAIImagesClient {
+  return new OpenAIImagesClient({
+    baseUrl: process.env.OPENAI_IMAGES_BASE_URL,
+    apiKey: process.env.OPENAI_API_KEY,
+    model: process.env.OPENAI_IMAGES_MODEL,
+  });
+}
+
+// gpt-image models always return base64 and reject response_format
+function returnsBase64ByDefault(model: string): boolean {
+  return model.startsWith('gpt-image');
+}
+
+function sizeFor(model: string, aspectRatio = '1:1'): string {
+  const { sizes } = getOpenAIModelLimits(model);
+  return sizes[aspectRatio] ?? sizes['1:1'];
+}
+
+function errorMessage(body: string): string {
+  try {
+    return JSON.parse(body)?.error?.message ?? body;
+  } catch {
+    return body;
+  }
+}
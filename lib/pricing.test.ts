@@ -0,0 +1,44 @@
+// lib/pricing.test.ts
+import { describe, it, expect } from '@jest/globals';
+import { estimateBatch, estimateCost } from './pricing';
+import { summarizeUsage } from './jobStatus';
+
+describe('pricing', () => {
+  it('prices token-billed models from their token counts', () => {
+    const cost = estimateCost('gemini-2.5-flash-image', { promptTokens: 1000, outputTokens: 1290 });
+    expect(cost).toBeCloseTo(0.0003 + 0.0387, 6);
+  });
+
+  it('falls back to the per-image price without token counts', () => {
+    expect(estimateCost('gemini-2.5-flash-image')).toBe(0.039);
+    expect(estimateCost('imagen-4.0-fast-generate-001', { promptTokens: 10, outputTokens: 0 })).toBe(0.02);
+  });
+
+  it('has no estimate for unknown models', () => {
+    expect(estimateCost(undefined)).toBeUndefined();
+    expect(estimateCost('no-such-model')).toBeUndefined();
+  });
+
+  it('estimates a batch from the prompt, inputs and image count', () => {
+    const { usage, cost } = estimateBatch('gemini-2.5-flash-image', 'a'.repeat(40), 1, 5);
+
+    expect(usage).toEqual({ promptTokens: (10 + 258) * 5, outputTokens: 1290 * 5 });
+    expect(cost).toBeCloseTo((1340 * 0.3 + 6450 * 30) / 1_000_000, 6);
+  });
+
+  it('estimates per-image models without token counts', () => {
+    expect(estimateBatch('imagen-4.0-generate-001', 'a red fox', 0, 3)).toEqual({
+      cost: 0.04 * 3,
+    });
+  });
+
+  it('sums usage and cost across jobs', () => {
+    expect(
+      summarizeUsage([
+        { usage: { promptTokens: 10, outputTokens: 1290 }, cost: 0.04 },
+        { cost: 0.02 },
+        {},
+      ])
+    ).toEqual({ usage: { promptTokens: 10, outputTokens: 1290 }, cost: 0.06 });
+  });
+});
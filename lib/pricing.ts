@@ -0,0 +1,92 @@
+// lib/pricing.ts
+import { readFileSync } from 'fs';
+import { getModel } from './models';
+import { TokenUsage } from './types';
+
+export interface ModelPrice {
+  inputPerMillion?: number; // USD per million prompt tokens
+  outputPerMillion?: number; // USD per million output tokens
+  perImage?: number; // USD, used when the provider reports no token counts
+}
+
+// Gemini bills image output as tokens: 1290 per 1024px image, so $0.039 each
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-flash-image': { inputPerMillion: 0.3, outputPerMillion: 30 },
+  'gemini-2.5-flash-image-preview': { inputPerMillion: 0.3, outputPerMillion: 30 },
+};
+
+// Gemini's token accounting: about 4 characters per text token, 258 tokens
+// per input image (larger images are tiled, so this is a floor) and 1290
+// output tokens per generated image
+const CHARS_PER_TOKEN = 4;
+const INPUT_IMAGE_TOKENS = 258;
+const OUTPUT_IMAGE_TOKENS = 1290;
+
+let cachedPrices: Record<string, ModelPrice> | null = null;
+
+/**
+ * Prices can be overridden or added per model with a JSON file named by
+ * MODEL_PRICES_PATH, e.g. `{ "gemini-2.5-flash-image": { "outputPerMillion": 30 } }`.
+ */
+export function loadPriceTable(): Record<string, ModelPrice> {
+  if (cachedPrices) {
+    return cachedPrices;
+  }
+
+  const prices = { ...DEFAULT_PRICES };
+  const path = process.env.MODEL_PRICES_PATH;
+  if (path) {
+    const overrides: Record<string, ModelPrice> = JSON.parse(readFileSync(path, 'utf8'));
+    for (const [model, price] of Object.entries(overrides)) {
+      prices[model] = { ...prices[model], ...price };
+    }
+  }
+
+  cachedPrices = prices;
+  return prices;
+}
+
+/**
+ * Estimated USD cost of one generated image: from its token counts when the
+ * model has token prices, else the model's per-image price.
+ */
+export function estimateCost(modelId: string | undefined, usage?: TokenUsage): number | undefined {
+  if (!modelId) return undefined;
+
+  const price = loadPriceTable()[modelId];
+  if (usage && price?.inputPerMillion !== undefined && price.outputPerMillion !== undefined) {
+    return (usage.promptTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1_000_000;
+  }
+  return price?.perImage ?? getModel(modelId)?.costPerImage;
+}
+
+/**
+ * Expected tokens and cost of a batch before it runs. Token counts are only
+ * given for models priced by the token; others are priced per image.
+ */
+export function estimateBatch(
+  modelId: string,
+  prompt: string,
+  inputImageCount: number,
+  imageCount: number
+): { usage?: TokenUsage; cost?: number } {
+  const price = loadPriceTable()[modelId];
+  if (price?.inputPerMillion === undefined || price.outputPerMillion === undefined) {
+    const perImage = estimateCost(modelId);
+    return { cost: perImage !== undefined ? perImage * imageCount : undefined };
+  }
+
+  // Every image is its own request, so the prompt and inputs are sent each time
+  const usage: TokenUsage = {
+    promptTokens:
+      (Math.ceil(prompt.length / CHARS_PER_TOKEN) + inputImageCount * INPUT_IMAGE_TOKENS) * imageCount,
+    outputTokens: OUTPUT_IMAGE_TOKENS * imageCount,
+  };
+  return { usage, cost: estimateCost(modelId, usage) };
+}
+
+// BATCH_BUDGET_USD warns before starting a batch expected to cost more
+export function getBatchBudget(): number | undefined {
+  const budget = Number(process.env.BATCH_BUDGET_USD);
+  return budget > 0 ? budget : undefined;
+}
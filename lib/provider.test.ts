@@ -0,0 +1,53 @@
+// lib/provider.test.ts
+import { describe, it, expect } from '@jest/globals';
+import {
+  DEFAULT_PROVIDER,
+  ImageProvider,
+  getProvider,
+  hasProvider,
+  listProviders,
+  registerProvider,
+} from './provider';
+
+function createStubProvider(name: string): ImageProvider {
+  return {
+    name,
+    capabilities: { edit: true, reference: true, compose: false, conversation: false, aspectRatios: ['1:1'] },
+    limits: { maxPromptLength: 100, maxInputImages: 1 },
+    generate: async (prompt) => ({ imageUrl: `generated:${prompt}` }),
+    edit: async (prompt, images) => ({ imageUrl: `edited:${prompt}:${images.length}` }),
+  };
+}
+
+describe('provider registry', () => {
+  it('registers gemini as the default provider', () => {
+    expect(DEFAULT_PROVIDER).toBe('gemini');
+    expect(hasProvider('gemini')).toBe(true);
+    expect(listProviders()).toContain('gemini');
+  });
+
+  it('resolves registered providers by name', async () => {
+    registerProvider('stub', () => createStubProvider('stub'));
+
+    const provider = getProvider('stub');
+    expect(provider.name).toBe('stub');
+    await expect(provider.generate('a cat')).resolves.toEqual({ imageUrl: 'generated:a cat' });
+  });
+
+  it('creates each provider only once', () => {
+    let created = 0;
+    registerProvider('counted', () => {
+      created++;
+      return createStubProvider('counted');
+    });
+
+    getProvider('counted');
+    getProvider('counted');
+    expect(created).toBe(1);
+  });
+
+  it('throws for unknown providers', () => {
+    expect(hasProvider('missing')).toBe(false);
+    expect(() => getProvider('missing')).toThrow('Unknown image provider: missing');
+  });
+});
@@ -0,0 +1,133 @@
+// lib/provider.ts
+import { GenerationMode, KeyPoolResponse, QuotaStatus, TokenUsage } from './types';
+import { InputImage } from './imageData';
+import { GenerationError } from './errors';
+import { GeminiClient } from './gemini';
+import { ImagenClient } from './imagen';
+import { createMockProviderFromEnv } from './mockProvider';
+import { createOpenAIImagesClientFromEnv } from './openaiImages';
+import { createStableDiffusionClientFromEnv } from './stableDiffusion';
+
+export interface GenerateImageOptions {
+  temperature?: number;
+  seed?: number;
+  topP?: number;
+  topK?: number;
+  mode?: GenerationMode;
+  aspectRatio?: string;
+  includeText?: boolean; // ask the model for commentary alongside the image
+  model?: string; // overrides the provider's default model
+  signal?: AbortSignal; // aborts the upstream call on cancellation or timeout
+}
+
+export interface GeneratedImage {
+  imageUrl: string; // data URL
+  text?: string; // model commentary, when requested
+  usage?: TokenUsage; // token counts, when the upstream API reports them
+}
+
+export interface ConversationMessage {
+  role: 'user' | 'model';
+  text?: string;
+  images: InputImage[];
+}
+
+export interface ProviderCapabilities {
+  edit: boolean;
+  reference: boolean;
+  compose: boolean;
+  conversation: boolean;
+  aspectRatios: string[];
+}
+
+export interface ProviderLimits {
+  maxPromptLength: number;
+  maxInputImages: number;
+}
+
+/**
+ * A backend capable of producing images. Implementations return the
+ * generated image as a data URL plus any commentary the model gave.
+ */
+export interface ImageProvider {
+  readonly name: string;
+  readonly capabilities: ProviderCapabilities;
+  readonly limits: ProviderLimits;
+  // Providers on the same credentials name the same group to share rate limiting
+  readonly rateLimitGroup?: string;
+
+  generate(prompt: string, options?: GenerateImageOptions): Promise<GeneratedImage>;
+  edit(prompt: string, images: InputImage[], options?: GenerateImageOptions): Promise<GeneratedImage>;
+
+  // Multi-turn generation; the last message is the new user turn
+  converse?(messages: ConversationMessage[], options?: GenerateImageOptions): Promise<GeneratedImage>;
+
+  // Several images from one upstream call; one result or error per image
+  generateBatch?(
+    prompt: string,
+    count: number,
+    options?: GenerateImageOptions
+  ): Promise<Array<GeneratedImage | GenerationError>>;
+
+  // Upstream requests left today, for providers with a daily quota
+  quota?(): QuotaStatus;
+
+  // Per-key counters of the pool the provider is using, for providers that rotate API keys
+  keyPool?(): KeyPoolResponse;
+}
+
+export type ProviderFactory = () => ImageProvider;
+
+export const DEFAULT_PROVIDER = 'gemini';
+
+// The offline mock replaces Gemini as the default when it is enabled
+export function getDefaultProviderName(): string {
+  return process.env.MOCK_PROVIDER === 'true' ? 'mock' : DEFAULT_PROVIDER;
+}
+
+const factories = new Map<string, ProviderFactory>();
+const instances = new Map<string, ImageProvider>();
+
+export function registerProvider(name: string, factory: ProviderFactory): void {
+  factories.set(name, factory);
+  instances.delete(name);
+}
+
+export function hasProvider(name: string): boolean {
+  return factories.has(name);
+}
+
+export function listProviders(): string[] {
+  return [...factories.keys()];
+}
+
+// Providers are created lazily so a missing API key for one backend
+// doesn't prevent the others from being used.
+export function getProvider(name: string = getDefaultProviderName()): ImageProvider {
+  let provider = instances.get(name);
+  if (!provider) {
+    const factory = factories.get(name);
+    if (!factory) {
+      throw new Error(`Unknown image provider: ${name}`);
+    }
+    provider = factory();
+    instances.set(name, provider);
+  }
+  return provider;
+}
+
+// Built-in providers
+registerProvider('gemini', () => new GeminiClient());
+registerProvider('imagen', () => new ImagenClient());
+
+if (process.env.MOCK_PROVIDER === 'true') {
+  registerProvider('mock', createMockProviderFromEnv);
+}
+
+if (process.env.STABLE_DIFFUSION_URL) {
+  registerProvider('stable-diffusion', createStableDiffusionClientFromEnv);
+}
+
+if (process.env.OPENAI_IMAGES_BASE_URL || process.env.OPENAI_API_KEY) {
+  registerProvider('openai', createOpenAIImagesClientFromEnv);
+}
@@ -0,0 +1,124 @@
+// lib/retry.test.ts
+import { describe, it, expect } from '@jest/globals';
+import { ApiError } from '@google/genai';
+import {
+  RetryPolicy,
+  computeRetryDelay,
+  getRetryPolicy,
+  isRetryableError,
+  withRetry,
+} from './retry';
+
+const fastPolicy: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1,
+  maxDelayMs: 10,
+  jitter: 0,
+};
+
+describe('retry', () => {
+  it('treats rate limits and server errors as retryable', () => {
+    expect(isRetryableError(new ApiError({ status: 429, message: 'quota' }))).toBe(true);
+    expect(isRetryableError(new ApiError({ status: 503, message: 'overloaded' }))).toBe(true);
+    expect(isRetryableError(new Error('RESOURCE_EXHAUSTED'))).toBe(true);
+    expect(isRetryableError(new ApiError({ status: 400, message: 'bad' }))).toBe(false);
+  });
+
+  it('backs off exponentially and respects the server delay', () => {
+    const policy = { ...fastPolicy, baseDelayMs: 1000, maxDelayMs: 60000 };
+
+    expect(computeRetryDelay(1, policy)).toBe(1000);
+    expect(computeRetryDelay(3, policy)).toBe(4000);
+    const rateLimited = new ApiError({ status: 429, message: '{"retryDelay": "12s"}' });
+    expect(computeRetryDelay(1, policy, rateLimited)).toBe(12000);
+    expect(computeRetryDelay(10, policy)).toBe(60000);
+  });
+
+  it('applies jitter around the backoff delay', () => {
+    const policy = { ...fastPolicy, baseDelayMs: 1000, maxDelayMs: 60000, jitter: 0.5 };
+
+    expect(computeRetryDelay(1, policy, undefined, () => 0)).toBe(500);
+    expect(computeRetryDelay(1, policy, undefined, () => 1)).toBe(1500);
+  });
+
+  it('retries until the call succeeds', async () => {
+    const retries: number[] = [];
+    let calls = 0;
+
+    const result = await withRetry(
+      async () => {
+        calls++;
+        if (calls < 3) throw new ApiError({ status: 429, message: 'quota' });
+        return 'ok';
+      },
+      fastPolicy,
+      { onRetry: (attempt) => retries.push(attempt) }
+    );
+
+    expect(result).toBe('ok');
+    expect(retries).toEqual([1, 2]);
+  });
+
+  it('gives up on non-retryable errors and exhausted attempts', async () => {
+    let calls = 0;
+    await expect(
+      withRetry(async () => {
+        calls++;
+        throw new ApiError({ status: 400, message: 'bad' });
+      }, fastPolicy)
+    ).rejects.toThrow('bad');
+    expect(calls).toBe(1);
+
+    calls = 0;
+    await expect(
+      withRetry(async () => {
+        calls++;
+        throw new ApiError({ status: 429, message: 'quota' });
+      }, fastPolicy)
+    ).rejects.toThrow('quota');
+    expect(calls).toBe(3);
+  });
+
+  it('aborts an attempt that runs past the timeout', async () => {
+    const signals: AbortSignal[] = [];
+    const hang = (_attempt: number, signal: AbortSignal) => {
+      signals.push(signal);
+      return new Promise<string>(() => {});
+    };
+
+    await expect(withRetry(hang, { ...fastPolicy, attemptTimeoutMs: 20 })).rejects.toMatchObject({
+      code: 'timeout',
+    });
+    // Timeouts are not retried
+    expect(signals).toHaveLength(1);
+    expect(signals[0].aborted).toBe(true);
+  });
+
+  it('stops retrying once cancelled', async () => {
+    const controller = new AbortController();
+    let calls = 0;
+
+    const result = withRetry(
+      async () => {
+        calls++;
+        controller.abort();
+        throw new ApiError({ status: 429, message: 'quota' });
+      },
+      { ...fastPolicy, baseDelayMs: 1000 },
+      { signal: controller.signal }
+    );
+
+    await expect(result).rejects.toMatchObject({ code: 'cancelled' });
+    expect(calls).toBe(1);
+  });
+
+  it('lets a request override the configured timeout', () => {
+    process.env.GENERATION_TIMEOUT_MS = '30000';
+    try {
+      expect(getRetryPolicy().attemptTimeoutMs).toBe(30000);
+      expect(getRetryPolicy(5000).attemptTimeoutMs).toBe(5000);
+    } finally {
+      delete process.env.GENERATION_TIMEOUT_MS;
+    }
+  });
+});
@@ -0,0 +1,135 @@
+// lib/retry.ts
+import { GenerationCancelledError, GenerationError, GenerationTimeoutError, classifyError } from './errors';
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitter: number; // fraction of the delay randomised either way, 0-1
+  attemptTimeoutMs?: number; // abort an attempt that runs longer than this
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 2000,
+  maxDelayMs: 60000,
+  jitter: 0.25,
+  attemptTimeoutMs: 120000,
+};
+
+// `timeoutMs` is a per-request override of GENERATION_TIMEOUT_MS
+export function getRetryPolicy(timeoutMs?: number): RetryPolicy {
+  const maxAttempts = Number(process.env.GENERATION_MAX_ATTEMPTS);
+  const attemptTimeoutMs = timeoutMs ?? Number(process.env.GENERATION_TIMEOUT_MS);
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    ...(maxAttempts >= 1 ? { maxAttempts } : {}),
+    ...(attemptTimeoutMs > 0 ? { attemptTimeoutMs } : {}),
+  };
+}
+
+export function isRetryableError(error: unknown): boolean {
+  return classifyError(error).retryable;
+}
+
+export function computeRetryDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  error?: unknown,
+  random: () => number = Math.random
+): number {
+  const serverDelay = error === undefined ? undefined : classifyError(error).retryAfterMs;
+  const baseDelay = serverDelay ?? policy.baseDelayMs * 2 ** (attempt - 1);
+  const jitter = 1 + policy.jitter * (random() * 2 - 1);
+
+  // Never retry sooner than the server asked us to
+  const delay = serverDelay !== undefined
+    ? serverDelay * Math.max(1, jitter)
+    : baseDelay * jitter;
+
+  return Math.round(Math.min(delay, policy.maxDelayMs));
+}
+
+export interface RetryHooks {
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+  signal?: AbortSignal; // cancels the current attempt and any pending retry
+}
+
+/**
+ * Runs `fn` until it succeeds, a non-retryable error is thrown or the
+ * policy's attempts are used up. `attempt` starts at 1. Each attempt gets
+ * a signal that aborts on cancellation or when it exceeds the policy's
+ * timeout, and is abandoned then even if `fn` ignores the signal.
+ */
+export async function withRetry<T>(
+  fn: (attempt: number, signal: AbortSignal) => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  hooks: RetryHooks = {}
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await runAttempt(fn, attempt, policy.attemptTimeoutMs, hooks.signal);
+    } catch (error) {
+      if (attempt >= policy.maxAttempts || !isRetryableError(error)) {
+        throw error;
+      }
+
+      const delayMs = computeRetryDelay(attempt, policy, error);
+      hooks.onRetry?.(attempt, delayMs, error);
+      await sleep(delayMs, hooks.signal);
+    }
+  }
+}
+
+async function runAttempt<T>(
+  fn: (attempt: number, signal: AbortSignal) => Promise<T>,
+  attempt: number,
+  timeoutMs: number | undefined,
+  signal: AbortSignal | undefined
+): Promise<T> {
+  if (signal?.aborted) {
+    throw new GenerationCancelledError('Generation was cancelled');
+  }
+
+  const controller = new AbortController();
+  let rejectAborted!: (error: GenerationError) => void;
+  const aborted = new Promise<never>((_, reject) => (rejectAborted = reject));
+  const abort = (error: GenerationError) => {
+    controller.abort(error);
+    rejectAborted(error);
+  };
+
+  const onCancel = () => abort(new GenerationCancelledError('Generation was cancelled'));
+  signal?.addEventListener('abort', onCancel, { once: true });
+  const timer = timeoutMs
+    ? setTimeout(
+        () => abort(new GenerationTimeoutError(`Request timed out after ${Math.round(timeoutMs / 1000)}s`)),
+        timeoutMs
+      )
+    : undefined;
+
+  try {
+    return await Promise.race([fn(attempt, controller.signal), aborted]);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onCancel);
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new GenerationCancelledError('Generation was cancelled'));
+      return;
+    }
+    const onCancel = () => {
+      clearTimeout(timer);
+      reject(new GenerationCancelledError('Generation was cancelled'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onCancel);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onCancel, { once: true });
+  });
+}
@@ -0,0 +1,18 @@
+// lib/serverState.ts
+
+const STATE_KEY = Symbol.for('image_ui.serverState');
+
+/**
+ * One value per server process, whichever bundle asks for it. Next.js
+ * bundles instrumentation.ts apart from the routes, each with its own copy
+ * of every module, so plain module-level state would be split in two: the
+ * jobs recovered at startup would run where the routes can't see them.
+ */
+export function serverState<T>(key: string, create: () => T): T {
+  const holder = globalThis as typeof globalThis & { [STATE_KEY]?: Map<string, unknown> };
+  const state = (holder[STATE_KEY] ??= new Map());
+  if (!state.has(key)) {
+    state.set(key, create());
+  }
+  return state.get(key) as T;
+}
@@ -0,0 +1,53 @@
+// lib/sessionManager.test.ts
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { SessionManager } from './sessionManager';
+
+describe('SessionManager', () => {
+  let manager: SessionManager;
+
+  beforeEach(() => {
+    manager = new SessionManager();
+  });
+
+  function addTurn(sessionId: string, parentId: string | null, prompt: string): string {
+    return manager.addTurn(sessionId, { parentId, prompt, images: [], jobId: `job-${prompt}` })!;
+  }
+
+  it('creates an empty session', () => {
+    const sessionId = manager.createSession();
+    expect(manager.getSession(sessionId)?.turns).toEqual([]);
+  });
+
+  it('does not add turns to unknown sessions', () => {
+    expect(manager.addTurn('missing', { parentId: null, prompt: 'a cat', images: [], jobId: 'j' })).toBeUndefined();
+  });
+
+  it('returns the branch leading to a turn, oldest first', () => {
+    const sessionId = manager.createSession();
+    const first = addTurn(sessionId, null, 'first');
+    const second = addTurn(sessionId, first, 'second');
+    const alternative = addTurn(sessionId, first, 'alternative');
+    addTurn(sessionId, second, 'third');
+
+    expect(manager.getBranch(sessionId, alternative).map((turn) => turn.prompt)).toEqual([
+      'first',
+      'alternative',
+    ]);
+    expect(manager.getBranch(sessionId, null)).toEqual([]);
+  });
+
+  it('updates turns in place', () => {
+    const sessionId = manager.createSession();
+    const turnId = addTurn(sessionId, null, 'first');
+
+    manager.updateTurn(sessionId, turnId, { imageUrl: 'data:image/png;base64,AAAA' });
+
+    expect(manager.getTurn(sessionId, turnId)?.imageUrl).toBe('data:image/png;base64,AAAA');
+  });
+
+  it('cleans up idle sessions', () => {
+    const sessionId = manager.createSession();
+    manager.cleanup(-1);
+    expect(manager.getSession(sessionId)).toBeUndefined();
+  });
+});
@@ -0,0 +1,96 @@
+// lib/sessionManager.ts
+import { Session, SessionTurn } from './types';
+import { randomUUID } from 'crypto';
+
+export class SessionManager {
+  private sessions: Map<string, Session> = new Map();
+
+  createSession(): string {
+    const id = randomUUID();
+    const now = Date.now();
+    this.sessions.set(id, {
+      id,
+      turns: [],
+      createdAt: now,
+      updatedAt: now,
+    });
+    return id;
+  }
+
+  getSession(id: string): Session | undefined {
+    return this.sessions.get(id);
+  }
+
+  listSessions(): Session[] {
+    return [...this.sessions.values()];
+  }
+
+  addTurn(sessionId: string, turn: Omit<SessionTurn, 'id' | 'createdAt'>): string | undefined {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return undefined;
+    }
+
+    const id = randomUUID();
+    const now = Date.now();
+    this.sessions.set(sessionId, {
+      ...session,
+      turns: [...session.turns, { ...turn, id, createdAt: now }],
+      updatedAt: now,
+    });
+    return id;
+  }
+
+  getTurn(sessionId: string, turnId: string): SessionTurn | undefined {
+    return this.sessions.get(sessionId)?.turns.find((turn) => turn.id === turnId);
+  }
+
+  updateTurn(sessionId: string, turnId: string, updates: Partial<SessionTurn>): void {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      this.sessions.set(sessionId, {
+        ...session,
+        turns: session.turns.map((turn) => (turn.id === turnId ? { ...turn, ...updates } : turn)),
+        updatedAt: Date.now(),
+      });
+    }
+  }
+
+  /**
+   * Returns the turns leading up to and including `turnId`, oldest first.
+   * This is the conversation the model sees when branching from that turn.
+   */
+  getBranch(sessionId: string, turnId: string | null): SessionTurn[] {
+    const session = this.sessions.get(sessionId);
+    if (!session || turnId === null) {
+      return [];
+    }
+
+    const byId = new Map(session.turns.map((turn) => [turn.id, turn]));
+    const branch: SessionTurn[] = [];
+    let current = byId.get(turnId);
+    while (current) {
+      branch.unshift(current);
+      current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+    return branch;
+  }
+
+  // Returns the removed sessions, so their images can be deleted too
+  cleanup(olderThanMs: number): Session[] {
+    const cutoff = Date.now() - olderThanMs;
+    const removed: Session[] = [];
+
+    for (const [id, session] of this.sessions.entries()) {
+      if (session.updatedAt < cutoff) {
+        this.sessions.delete(id);
+        removed.push(session);
+      }
+    }
+
+    return removed;
+  }
+}
+
+// Singleton instance
+export const sessionManager = new SessionManager();
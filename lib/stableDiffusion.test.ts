@@ -0,0 +1,97 @@
+// lib/stableDiffusion.test.ts
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { StableDiffusionClient } from './stableDiffusion';
+import { RecordedRequest, useStubServer } from './testHelpers';
+
+// The path and parsed JSON body of each request the stub received
+function sent(requests: RecordedRequest[]) {
+  return requests.map(({ path, body }) => ({ path, body: JSON.parse(body) }));
+}
+
+describe('StableDiffusionClient', () => {
+  let status: number;
+  // Minimal stand-in for the Automatic1111 API
+  const stub = useStubServer(({ body }) => ({
+    status,
+    body:
+      status === 200
+        ? { images: Array.from({ length: JSON.parse(body).batch_size }, (_, i) => `img${i}`), info: '{}' }
+        : { detail: 'Stub failure' },
+  }));
+
+  beforeEach(() => {
+    status = 200;
+  });
+
+  it('maps generation options onto txt2img', async () => {
+    const client = new StableDiffusionClient({ baseUrl: `${stub.url}/`, steps: 10 });
+
+    const result = await client.generate('a red fox', { temperature: 0, seed: 42, aspectRatio: '16:9' });
+
+    expect(result).toEqual({ imageUrl: 'data:image/png;base64,img0' });
+    expect(sent(stub.requests)).toEqual([
+      {
+        path: '/sdapi/v1/txt2img',
+        body: expect.objectContaining({
+          prompt: 'a red fox',
+          seed: 42,
+          width: 512,
+          height: 288,
+          steps: 10,
+          cfg_scale: 12,
+          batch_size: 1,
+        }),
+      },
+    ]);
+  });
+
+  it('sends edits to img2img with the input image', async () => {
+    const client = new StableDiffusionClient({ baseUrl: stub.url });
+
+    await client.edit('make it night', [{ mimeType: 'image/png', data: 'input' }], { mode: 'edit' });
+
+    expect(stub.requests[0].path).toBe('/sdapi/v1/img2img');
+    expect(sent(stub.requests)[0].body).toMatchObject({
+      prompt: 'make it night',
+      init_images: ['input'],
+      seed: -1,
+      cfg_scale: 7.5,
+      denoising_strength: 0.6,
+    });
+  });
+
+  it('renders a group of images with one batched request', async () => {
+    const client = new StableDiffusionClient({ baseUrl: stub.url });
+
+    const results = await client.generateBatch('a red fox', 3, { seed: 7 });
+
+    expect(results).toHaveLength(3);
+    expect(stub.requests).toHaveLength(1);
+    expect(sent(stub.requests)[0].body).toMatchObject({ batch_size: 3, seed: 7 });
+  });
+
+  it('rejects modes img2img cannot express', async () => {
+    const client = new StableDiffusionClient({ baseUrl: stub.url });
+
+    await expect(
+      client.edit('a cat', [{ mimeType: 'image/png', data: 'input' }], { mode: 'reference' })
+    ).rejects.toMatchObject({ code: 'invalid_argument' });
+    expect(stub.requests).toHaveLength(0);
+  });
+
+  it('classifies server errors as retryable', async () => {
+    status = 503;
+    const client = new StableDiffusionClient({ baseUrl: stub.url });
+
+    await expect(client.generate('a red fox')).rejects.toMatchObject({
+      code: 'provider_unavailable',
+      retryable: true,
+    });
+  });
+
+  it('reports an unreachable server as unavailable', async () => {
+    const client = new StableDiffusionClient({ baseUrl: 'http://127.0.0.1:1' });
+
+    await expect(client.generate('a red fox')).rejects.toMatchObject({ code: 'provider_unavailable' });
+  });
+});
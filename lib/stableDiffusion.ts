@@ -0,0 +1,171 @@
+// lib/stableDiffusion.ts
+import { ASPECT_RATIOS, DEFAULT_ASPECT_RATIO } from './aspectRatios';
+import {
+  GenerationError,
+  InvalidArgumentError,
+  NoImageReturnedError,
+  UpstreamHttpError,
+  classifyError,
+} from './errors';
+import { InputImage } from './imageData';
+import {
+  GenerateImageOptions,
+  GeneratedImage,
+  ImageProvider,
+  ProviderCapabilities,
+  ProviderLimits,
+} from './provider';
+
+export interface StableDiffusionOptions {
+  baseUrl: string; // e.g. http://127.0.0.1:7860
+  steps?: number;
+  size?: number; // length of the longest image side in pixels
+}
+
+export const STABLE_DIFFUSION_MAX_IMAGES_PER_REQUEST = 4;
+
+interface StableDiffusionResponse {
+  images?: string[]; // base64 PNGs
+}
+
+/**
+ * Adapter for a locally hosted Automatic1111-style API (`/sdapi/v1/txt2img`
+ * and `/sdapi/v1/img2img`), for work that must stay on our own hardware.
+ * Enable with STABLE_DIFFUSION_URL.
+ */
+export class StableDiffusionClient implements ImageProvider {
+  readonly name = 'stable-diffusion';
+  readonly capabilities: ProviderCapabilities = {
+    edit: true,
+    reference: false,
+    compose: false,
+    conversation: false,
+    aspectRatios: ASPECT_RATIOS,
+  };
+  readonly limits: ProviderLimits = {
+    maxPromptLength: 10000,
+    maxInputImages: 1,
+  };
+
+  private baseUrl: string;
+  private steps: number;
+  private size: number;
+
+  constructor(options: StableDiffusionOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.steps = options.steps ?? 25;
+    this.size = options.size ?? 512;
+  }
+
+  async generate(prompt: string, options: GenerateImageOptions = {}): Promise<GeneratedImage> {
+    const [image] = await this.request('txt2img', this.buildPayload(prompt, 1, options), options.signal);
+    return image;
+  }
+
+  async edit(prompt: string, images: InputImage[], options: GenerateImageOptions = {}): Promise<GeneratedImage> {
+    if (options.mode && options.mode !== 'edit') {
+      throw new InvalidArgumentError(`Stable Diffusion does not support ${options.mode} mode`);
+    }
+    if (images.length !== 1) {
+      throw new InvalidArgumentError('Stable Diffusion edits exactly one image');
+    }
+
+    const [image] = await this.request('img2img', {
+      ...this.buildPayload(prompt, 1, options),
+      init_images: [images[0].data],
+      denoising_strength: toDenoisingStrength(options.temperature),
+    }, options.signal);
+    return image;
+  }
+
+  // batch_size N with seed S renders seeds S..S+N-1, matching our per-job seeds
+  async generateBatch(
+    prompt: string,
+    count: number,
+    options: GenerateImageOptions = {}
+  ): Promise<Array<GeneratedImage | GenerationError>> {
+    const images = await this.request('txt2img', this.buildPayload(prompt, count, options), options.signal);
+    return Array.from(
+      { length: count },
+      (_, i) => images[i] ?? new NoImageReturnedError(`Stable Diffusion returned ${images.length} of ${count} images`)
+    );
+  }
+
+  private buildPayload(prompt: string, count: number, options: GenerateImageOptions) {
+    const { width, height } = dimensionsFor(options.aspectRatio ?? DEFAULT_ASPECT_RATIO, this.size);
+    return {
+      prompt,
+      seed: options.seed ?? -1, // -1 asks for a random seed
+      width,
+      height,
+      steps: this.steps,
+      cfg_scale: toCfgScale(options.temperature),
+      batch_size: count,
+      n_iter: 1,
+    };
+  }
+
+  private async request(
+    endpoint: 'txt2img' | 'img2img',
+    payload: object,
+    signal?: AbortSignal
+  ): Promise<GeneratedImage[]> {
+    try {
+      const response = await fetch(`${this.baseUrl}/sdapi/v1/${endpoint}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+        signal,
+      });
+
+      if (!response.ok) {
+        const body = await response.text();
+        throw new UpstreamHttpError(
+          response.status,
+          `Stable Diffusion ${endpoint} failed with status ${response.status}: ${body}`
+        );
+      }
+
+      const data: StableDiffusionResponse = await response.json();
+      const images = data.images ?? [];
+      if (images.length === 0) {
+        throw new NoImageReturnedError(`No image data found in ${endpoint} response`);
+      }
+
+      return images.map((image) => ({ imageUrl: `data:image/png;base64,${image}` }));
+    } catch (error) {
+      throw classifyError(error);
+    }
+  }
+}
+
+export function createStableDiffusionClientFromEnv(): StableDiffusionClient {
+  const steps = process.env.STABLE_DIFFUSION_STEPS;
+  return new StableDiffusionClient({
+    baseUrl: process.env.STABLE_DIFFUSION_URL!,
+    steps: steps !== undefined ? Number(steps) : undefined,
+  });
+}
+
+// Temperature 0-2 stands in for prompt adherence: colder follows the prompt
+// more closely. 1.0 maps to 7.5, close to the A1111 default of 7.
+function toCfgScale(temperature = 1.0): number {
+  return Math.round((12 - temperature * 4.5) * 10) / 10;
+}
+
+// Hotter edits stray further from the input image
+function toDenoisingStrength(temperature = 1.0): number {
+  return Math.min(1, Math.round((0.3 + temperature * 0.3) * 100) / 100);
+}
+
+// Stable Diffusion wants dimensions in multiples of 8
+function dimensionsFor(aspectRatio: string, size: number): { width: number; height: number } {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  const roundTo8 = (value: number) => Math.max(8, Math.round(value / 8) * 8);
+  if (!w || !h) {
+    return { width: size, height: size };
+  }
+  return w >= h
+    ? { width: roundTo8(size), height: roundTo8((size * h) / w) }
+    : { width: roundTo8((size * w) / h), height: roundTo8(size) };
+}
@@ -0,0 +1,89 @@
+// lib/testHelpers.ts
+// Fixtures shared by the *.test.ts files; the app itself never imports this
+import { afterAll, beforeAll, beforeEach } from '@jest/globals';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { registerModel } from './models';
+import { ImageProvider } from './provider';
+import { ModelInfo } from './types';
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  headers: IncomingMessage['headers'];
+  body: string;
+}
+
+export interface StubReply {
+  status: number;
+  body: unknown; // sent as JSON
+}
+
+export interface StubServer {
+  url: string; // http://127.0.0.1:<port>, once the server is listening
+  requests: RecordedRequest[]; // cleared before each test
+}
+
+/**
+ * Runs a local HTTP server for the enclosing describe block, standing in
+ * for a provider's API: it records every request and answers each one
+ * with `respond`.
+ */
+export function useStubServer(respond: (request: RecordedRequest) => StubReply): StubServer {
+  const stub: StubServer = { url: '', requests: [] };
+  let server: Server;
+
+  beforeAll(async () => {
+    server = createServer((req: IncomingMessage, res: ServerResponse) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        const request: RecordedRequest = { method: req.method ?? '', path: req.url ?? '', headers: req.headers, body };
+        stub.requests.push(request);
+
+        const reply = respond(request);
+        res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    stub.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    stub.requests = [];
+  });
+
+  return stub;
+}
+
+// A text-to-image provider with a placeholder image; override what a test needs
+export function createStubProvider(name: string, overrides: Partial<ImageProvider> = {}): ImageProvider {
+  const image = async () => ({ imageUrl: 'data:image/png;base64,c2luZ2xl' });
+  return {
+    name,
+    capabilities: { edit: false, reference: false, compose: false, conversation: false, aspectRatios: ['1:1'] },
+    limits: { maxPromptLength: 100, maxInputImages: 0 },
+    generate: image,
+    edit: image,
+    ...overrides,
+  };
+}
+
+export function registerStubModel(id: string, provider: string, overrides: Partial<ModelInfo> = {}): void {
+  registerModel({
+    id,
+    label: id,
+    provider,
+    aspectRatios: ['1:1'],
+    maxInputImages: 0,
+    maxPromptLength: 100,
+    costPerImage: 0,
+    maxImagesPerRequest: 1,
+    ...overrides,
+  });
+}
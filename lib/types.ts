@@ -1,33 +1,131 @@
 // lib/types.ts
 
-export type JobStatus = 'pending' | 'generating' | 'complete' | 'error';
+export type JobStatus = 'pending' | 'generating' | 'complete' | 'error' | 'timeout' | 'cancelled';
 
-export type GenerationMode = 'edit' | 'reference';
+export type GenerationMode = 'edit' | 'reference' | 'compose';
+
+export type ErrorCode =
+  | 'rate_limited'
+  | 'safety_blocked'
+  | 'invalid_argument'
+  | 'no_image_returned'
+  | 'auth_failed'
+  | 'timeout'
+  | 'cancelled'
+  | 'provider_unavailable';
+
+export interface SafetyRating {
+  category: string; // e.g. HARM_CATEGORY_DANGEROUS_CONTENT
+  probability: string; // e.g. NEGLIGIBLE, LOW, MEDIUM, HIGH
+  blocked: boolean;
+}
+
+export interface SafetyFeedback {
+  finishReason?: string;
+  blockReason?: string; // set when the prompt itself was blocked
+  ratings: SafetyRating[];
+}
+
+export interface JobError {
+  code: ErrorCode;
+  message: string;
+  retryable: boolean;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number; // includes any thinking tokens, which are billed as output
+}
+
+export interface GenerationParams {
+  temperature: number;
+  seed?: number;
+  topP?: number;
+  topK?: number;
+  aspectRatio?: string;
+  model?: string;
+}
+
+export interface ModelInfo {
+  id: string; // upstream model name
+  label: string;
+  provider: string; // the provider that serves this model
+  aspectRatios: string[];
+  maxInputImages: number;
+  maxPromptLength: number;
+  costPerImage: number; // USD
+  maxImagesPerRequest: number; // images one upstream call can return
+}
+
+export interface ModelsResponse {
+  models: ModelInfo[];
+  defaultModel: string;
+}
 
 export interface GenerateRequest {
   prompt: string;
   imageCount: number;
-  concurrency: number;
+  concurrency: number | 'auto'; // 'auto' adapts to rate limiting, shared across batches
   temperature: number;
-  image?: string; // base64
+  seed?: number; // job N uses seed + N
+  topP?: number;
+  topK?: number;
+  aspectRatio?: string; // e.g. '16:9', defaults to '1:1'
+  image?: string; // base64, shorthand for a single entry in `images`
+  images?: string[]; // base64, in the order they are sent to the model
   mode?: GenerationMode;
+  includeText?: boolean; // request the model's text commentary too
+  provider?: string; // defaults to the model's provider, or 'gemini'
+  model?: string; // defaults to the provider's first model
+  timeoutMs?: number; // per upstream request, overrides GENERATION_TIMEOUT_MS
 }
 
 export interface Job {
   id: string;
   status: JobStatus;
-  imageUrl?: string;
-  error?: string;
+  params: GenerationParams;
+  imageUrl?: string; // /api/images/<id> once the image is stored
+  text?: string; // model commentary
+  error?: JobError;
+  safety?: SafetyFeedback;
+  attempts: number;
+  nextRetryAt?: number; // epoch ms, set while waiting to retry
+  usage?: TokenUsage; // for providers that report token counts
+  cost?: number; // estimated USD, set once complete
+  provider?: string; // what produced the image, which may be a fallback
+  model?: string;
   createdAt: number;
 }
 
 export interface Batch {
   id: string;
   jobIds: string[];
-  concurrency: number;
+  concurrency: number | 'auto';
+  provider?: string;
+  request?: GenerateRequest; // what the batch's jobs generate, to resume them after a restart
   createdAt: number;
 }
 
+export interface EstimateRequest {
+  prompt?: string;
+  imageCount: number;
+  inputImageCount?: number; // images attached to the prompt
+  provider?: string;
+  model?: string;
+}
+
+export interface EstimateResponse {
+  model: string;
+  imageCount: number;
+  requests: number; // upstream calls the batch will make, before retries
+  usage?: TokenUsage; // for models priced by the token
+  cost?: number; // estimated USD
+  budget?: number; // configured per-batch budget in USD
+  overBudget: boolean;
+  quota?: QuotaStatus; // for providers with a daily quota
+  overQuota: boolean;
+}
+
 export interface GenerateResponse {
   batchId: string;
   jobIds: string[];
@@ -37,6 +135,106 @@ export interface GenerateResponse {
 export interface StatusResponse {
   jobId: string;
   status: JobStatus;
+  params?: GenerationParams;
   imageUrl?: string;
-  error?: string;
+  text?: string;
+  error?: JobError;
+  safety?: SafetyFeedback;
+  attempts?: number;
+  nextRetryAt?: number;
+  usage?: TokenUsage;
+  cost?: number;
+  provider?: string;
+  model?: string;
+}
+
+export interface BatchStatusResponse {
+  batchId: string;
+  jobs: StatusResponse[];
+  concurrency: number | 'auto'; // as requested
+  effectiveConcurrency: number; // requests allowed in flight now, which adapts under 'auto'
+  usage: TokenUsage; // summed over the batch's jobs
+  cost: number; // estimated USD so far
+}
+
+export interface SessionTurn {
+  id: string;
+  parentId: string | null; // null for the first turn of a branch
+  prompt: string;
+  images: string[]; // images attached to this turn, as data URLs
+  jobId: string;
+  imageUrl?: string; // copied from the job once complete
+  text?: string;
+  createdAt: number;
+}
+
+export interface Session {
+  id: string;
+  turns: SessionTurn[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface CreateTurnRequest {
+  prompt: string;
+  parentTurnId?: string | null; // defaults to the latest turn; null starts a new branch
+  images?: string[]; // base64
+  temperature?: number;
+  aspectRatio?: string;
+  includeText?: boolean;
+  provider?: string; // defaults to the model's provider, or 'gemini'
+  model?: string; // defaults to the provider's first model
+}
+
+export interface SessionTurnResponse {
+  turnId: string;
+  parentId: string | null;
+  prompt: string;
+  images: string[];
+  job: StatusResponse;
+  createdAt: number;
+}
+
+export interface SessionResponse {
+  sessionId: string;
+  turns: SessionTurnResponse[];
+}
+
+export type KeySelectionStrategy = 'round-robin' | 'least-used';
+
+export interface KeyStatus {
+  key: string; // masked, e.g. AIza…x7Qk
+  available: boolean;
+  requestsToday: number;
+  dailyLimit?: number;
+  totalRequests: number;
+  rateLimitedCount: number;
+  cooldownUntil?: number; // epoch ms, while resting after a 429
+  lastUsedAt?: number;
+}
+
+export interface QuotaStatus {
+  remainingToday?: number; // upstream requests left before the reset; unset without a daily limit
+  resetsAt: number; // epoch ms
+}
+
+export interface KeyPoolResponse {
+  strategy: KeySelectionStrategy;
+  resetsAt: number; // epoch ms of the next midnight Pacific reset
+  keys: KeyStatus[];
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitStatus {
+  provider: string;
+  state: CircuitState;
+  requests: number; // in the current window
+  failures: number;
+  retryAt?: number; // epoch ms the next probe is allowed, once opened
+}
+
+export interface HealthResponse {
+  status: 'ok' | 'degraded';
+  circuits: CircuitStatus[];
 }
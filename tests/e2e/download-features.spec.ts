@@ -198,7 +198,7 @@ test.describe('Download Features', () => {
         response = {
           jobId,
           status: 'error',
-          error: 'Generation failed',
+          error: { code: 'no_image_returned', message: 'Generation failed', retryable: true },
         };
       } else {
         response = {
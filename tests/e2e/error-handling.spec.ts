@@ -167,13 +167,13 @@ test.describe('Error Handling', () => {
         response = {
           jobId,
           status: 'error',
-          error: 'Timeout error',
+          error: { code: 'timeout', message: 'Timeout error', retryable: true },
         };
       } else if (jobId === 'job-2') {
         response = {
           jobId,
           status: 'error',
-          error: 'Invalid API key',
+          error: { code: 'auth_failed', message: 'Invalid API key', retryable: false },
         };
       } else {
         response = {
@@ -12,7 +12,7 @@ test.describe('Image Upload Functionality', () => {
     await expect(fileInput).toBeAttached();
 
     // Upload area should be visible
-    await expect(page.getByText('Upload Image (Optional)')).toBeVisible();
+    await expect(page.getByText('Upload Images (Optional)')).toBeVisible();
   });
 
   test('should upload image and show preview', async ({ page }) => {
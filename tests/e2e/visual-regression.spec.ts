@@ -224,7 +224,7 @@ test.describe('Visual Regression Tests', () => {
         response = {
           jobId,
           status: 'error',
-          error: 'Generation failed',
+          error: { code: 'no_image_returned', message: 'Generation failed', retryable: true },
         };
       }
 
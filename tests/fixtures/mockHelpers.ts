@@ -147,7 +147,7 @@ export async function mockStatusAPIMixed(page: Page) {
     // Make job-3 and job-4 fail, others succeed
     const response =
       jobId === 'job-3' || jobId === 'job-4'
-        ? mockErrorStatus(jobId, 'Generation timeout')
+        ? mockErrorStatus(jobId, 'Generation timeout', 'timeout')
         : mockCompleteStatus(jobId);
 
     await route.fulfill({
@@ -1,5 +1,5 @@
 // Mock API responses for testing
-import { GenerateResponse, StatusResponse } from '@/lib/types';
+import { ErrorCode, GenerateResponse, StatusResponse } from '@/lib/types';
 
 // Mock base64 image (1x1 red pixel PNG)
 export const MOCK_IMAGE_BASE64 =
@@ -38,10 +38,18 @@ export const mockCompleteStatus = (jobId: string): StatusResponse => ({
   imageUrl: MOCK_IMAGE_BASE64,
 });
 
-export const mockErrorStatus = (jobId: string, error?: string): StatusResponse => ({
+export const mockErrorStatus = (
+  jobId: string,
+  error?: string,
+  code: ErrorCode = 'provider_unavailable'
+): StatusResponse => ({
   jobId,
   status: 'error',
-  error: error || 'Generation failed',
+  error: {
+    code,
+    message: error || 'Generation failed',
+    retryable: code !== 'safety_blocked' && code !== 'invalid_argument' && code !== 'auth_failed',
+  },
 });
 
 // Helper to create a sequence of status updates
@@ -60,7 +68,7 @@ export const mockValidationErrors = {
     error: 'Image count must be between 1 and 10',
   },
   invalidConcurrency: {
-    error: 'Concurrency must be between 1 and 5',
+    error: 'Concurrency must be between 1 and 5, or auto',
   },
 };
 
@@ -79,6 +87,6 @@ export const mockMixedStatusJobs = (): StatusResponse[] => [
   mockCompleteStatus('job-1'),
   mockCompleteStatus('job-2'),
   mockGeneratingStatus('job-3'),
-  mockErrorStatus('job-4', 'API quota exceeded'),
+  mockErrorStatus('job-4', 'API quota exceeded', 'rate_limited'),
   mockPendingStatus('job-5'),
 ];